@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getServerProviderConfig } from "@/lib/api-key-server";
+import { checkBaseUrlHost } from "@/lib/ocr-providers/host-guard";
+import { requestCompletion, validateBaseUrl } from "@/lib/ocr-providers";
+import { getErrorStatus, type OCRError } from "@/lib/ocr-types";
+import {
+  buildFieldsPrompt,
+  parseModelFields,
+  validateTemplateFields,
+  type TemplateField,
+} from "@/lib/field-templates";
+
+export const maxDuration = 60;
+
+function errorResponse(error: OCRError, status: number = getErrorStatus(error)) {
+  return NextResponse.json({ error }, { status });
+}
+
+/**
+ * Fill template fields from extracted markdown with the user's active provider
+ * Body: { markdown, fields: TemplateField[] }
+ * Responds with { data: { fields: ExtractedField[], tokensUsed } } or { error: OCRError }
+ */
+export async function POST(request: Request) {
+  const session = await auth.api.getSession({ headers: request.headers });
+
+  if (!session) {
+    return errorResponse(
+      { type: "unknown", message: "You must be signed in to extract fields." },
+      401
+    );
+  }
+
+  let body: { markdown?: unknown; fields?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse({ type: "unknown", message: "Invalid request body." }, 400);
+  }
+
+  const { markdown, fields } = body;
+
+  if (typeof markdown !== "string" || !markdown.trim()) {
+    return errorResponse({ type: "unknown", message: "Missing document text." }, 400);
+  }
+
+  const fieldsError = validateTemplateFields(fields);
+  if (fieldsError) {
+    return errorResponse({ type: "unknown", message: fieldsError }, 400);
+  }
+
+  const { provider, config, error: keyError } = await getServerProviderConfig(session.user.id);
+
+  if (keyError) {
+    return errorResponse({ type: "server", message: "Failed to load API key." }, 500);
+  }
+
+  if (!config) {
+    return errorResponse({
+      type: "invalid_key",
+      message: `No ${provider.name} API key found. Please add your key in Settings.`,
+    });
+  }
+
+  if (provider.requiresBaseUrl) {
+    const baseUrlError =
+      validateBaseUrl(config.baseUrl ?? "") ?? (await checkBaseUrlHost(config.baseUrl ?? ""));
+    if (baseUrlError) {
+      return errorResponse({ type: "unknown", message: baseUrlError }, 400);
+    }
+  }
+
+  const templateFields = fields as TemplateField[];
+  const { data, error } = await requestCompletion(
+    provider,
+    config,
+    buildFieldsPrompt(markdown, templateFields)
+  );
+
+  if (error || !data) {
+    return errorResponse(error ?? { type: "server", message: "Empty response from provider." });
+  }
+
+  const extracted = parseModelFields(data.text, templateFields);
+
+  if (!extracted) {
+    return errorResponse(
+      { type: "unknown", message: "The model did not return the fields as JSON." },
+      502
+    );
+  }
+
+  return NextResponse.json({ data: { fields: extracted, tokensUsed: data.tokensUsed } });
+}
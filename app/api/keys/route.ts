@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getServerKeySummary } from "@/lib/api-key-server";
+import { isOCRProviderId } from "@/lib/ocr-providers";
+import type { OCRError } from "@/lib/ocr-types";
+
+function errorResponse(error: OCRError, status: number) {
+  return NextResponse.json({ error }, { status });
+}
+
+/**
+ * Describe the signed-in user's stored key for a provider
+ * Query: ?provider=<OCRProviderId>
+ * Responds with { data: StoredKeySummary } or { error: OCRError }; the
+ * decrypted key itself never leaves the server.
+ */
+export async function GET(request: Request) {
+  const session = await auth.api.getSession({ headers: request.headers });
+
+  if (!session) {
+    return errorResponse(
+      { type: "unknown", message: "You must be signed in to view your key." },
+      401
+    );
+  }
+
+  const provider = new URL(request.url).searchParams.get("provider");
+
+  if (!isOCRProviderId(provider)) {
+    return errorResponse({ type: "unknown", message: "Unknown provider." }, 400);
+  }
+
+  const { data, error } = await getServerKeySummary(session.user.id, provider);
+
+  if (error) {
+    return errorResponse({ type: "server", message: "Failed to load API key." }, 500);
+  }
+
+  return NextResponse.json({ data });
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getServerProviderConfig } from "@/lib/api-key-server";
+import { checkBaseUrlHost } from "@/lib/ocr-providers/host-guard";
+import { requestOCR, requestOCRStream, validateBaseUrl } from "@/lib/ocr-providers";
+import { getErrorStatus, isOCRPromptType, type OCRError } from "@/lib/ocr-types";
+
+// Dense pages can take close to the 60s upstream timeout
+export const maxDuration = 60;
+
+function errorResponse(error: OCRError, status: number = getErrorStatus(error)) {
+  return NextResponse.json({ error }, { status });
+}
+
+/**
+ * Proxy an OCR request to the signed-in user's active provider using their stored key
+ * Body: { imageBase64, mimeType, promptType, stream? }
+ * Responds with { data: OCRResponse } or { error: OCRError }. With stream: true
+ * a successful upstream call instead responds with server-sent events:
+ * { delta } as text arrives, then { data } or { error }.
+ */
+export async function POST(request: Request) {
+  const session = await auth.api.getSession({ headers: request.headers });
+
+  if (!session) {
+    return errorResponse(
+      { type: "unknown", message: "You must be signed in to extract text." },
+      401
+    );
+  }
+
+  let body: { imageBase64?: unknown; mimeType?: unknown; promptType?: unknown; stream?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse({ type: "unknown", message: "Invalid request body." }, 400);
+  }
+
+  const { imageBase64, mimeType = "image/jpeg", promptType = "document" } = body;
+
+  if (typeof imageBase64 !== "string" || !imageBase64) {
+    return errorResponse({ type: "unknown", message: "Missing image data." }, 400);
+  }
+
+  if (typeof mimeType !== "string" || !mimeType.startsWith("image/")) {
+    return errorResponse({ type: "unknown", message: "Unsupported image type." }, 400);
+  }
+
+  if (!isOCRPromptType(promptType)) {
+    return errorResponse({ type: "unknown", message: "Unknown OCR mode." }, 400);
+  }
+
+  const { provider, config, error: keyError } = await getServerProviderConfig(session.user.id);
+
+  if (keyError) {
+    return errorResponse({ type: "server", message: "Failed to load API key." }, 500);
+  }
+
+  if (!config) {
+    return errorResponse({
+      type: "invalid_key",
+      message: `No ${provider.name} API key found. Please add your key in Settings.`,
+    });
+  }
+
+  if (provider.requiresBaseUrl) {
+    const baseUrlError =
+      validateBaseUrl(config.baseUrl ?? "") ?? (await checkBaseUrlHost(config.baseUrl ?? ""));
+    if (baseUrlError) {
+      return errorResponse({ type: "unknown", message: baseUrlError }, 400);
+    }
+  }
+
+  if (body.stream === true) {
+    const { stream, error } = await requestOCRStream(
+      provider,
+      config,
+      { imageBase64, mimeType, promptType },
+      request.signal
+    );
+
+    if (error || !stream) {
+      return errorResponse(error ?? { type: "server", message: "Empty response from provider." });
+    }
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+      },
+    });
+  }
+
+  const { data, error } = await requestOCR(provider, config, { imageBase64, mimeType, promptType });
+
+  if (error) {
+    return errorResponse(error);
+  }
+
+  return NextResponse.json({ data });
+}
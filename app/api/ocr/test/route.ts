@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getServerProviderConfig } from "@/lib/api-key-server";
+import { checkBaseUrlHost, getHostGuardDispatcher } from "@/lib/ocr-providers/host-guard";
+import {
+  getOCRProvider,
+  isOCRProviderId,
+  testOCRProvider,
+  validateBaseUrl,
+  type OCRProviderConfig,
+} from "@/lib/ocr-providers";
+import { getErrorStatus, type OCRError } from "@/lib/ocr-types";
+
+function errorResponse(error: OCRError, status: number = getErrorStatus(error)) {
+  return NextResponse.json({ error }, { status });
+}
+
+/**
+ * Test a provider configuration
+ * Body: { provider?, apiKey?, model?, baseUrl? } - tests the given (unsaved)
+ * settings, or the stored config for the active provider when provider is omitted
+ */
+export async function POST(request: Request) {
+  const session = await auth.api.getSession({ headers: request.headers });
+
+  if (!session) {
+    return errorResponse(
+      { type: "unknown", message: "You must be signed in to test a key." },
+      401
+    );
+  }
+
+  let body: { provider?: unknown; apiKey?: unknown; model?: unknown; baseUrl?: unknown } = {};
+  try {
+    body = await request.json();
+  } catch {
+    // Empty body: test the stored config
+  }
+
+  const stored = await getServerProviderConfig(session.user.id);
+  let provider = stored.provider;
+  let config: OCRProviderConfig | null = stored.config;
+
+  if (isOCRProviderId(body.provider)) {
+    provider = getOCRProvider(body.provider);
+
+    // Fall back to the stored key when only the model or URL changed
+    const storedKey = stored.provider.id === provider.id ? stored.config?.apiKey : undefined;
+
+    config = {
+      apiKey: typeof body.apiKey === "string" && body.apiKey ? body.apiKey.trim() : storedKey ?? "",
+      model: typeof body.model === "string" && body.model ? body.model.trim() : provider.defaultModel,
+      baseUrl: typeof body.baseUrl === "string" ? body.baseUrl.trim() : undefined,
+    };
+  } else if (stored.error) {
+    return errorResponse({ type: "server", message: "Failed to load API key." }, 500);
+  }
+
+  if (!config || (provider.requiresApiKey && !config.apiKey)) {
+    return errorResponse({ type: "invalid_key", message: "No API key to test." });
+  }
+
+  if (provider.requiresBaseUrl) {
+    const baseUrlError =
+      validateBaseUrl(config.baseUrl ?? "") ?? (await checkBaseUrlHost(config.baseUrl ?? ""));
+    if (baseUrlError) {
+      return errorResponse({ type: "unknown", message: baseUrlError }, 400);
+    }
+    config = { ...config, dispatcher: getHostGuardDispatcher() };
+  }
+
+  const { error } = await testOCRProvider(provider, config);
+
+  if (error) {
+    return errorResponse(error);
+  }
+
+  return NextResponse.json({ data: { valid: true } });
+}
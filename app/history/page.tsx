@@ -0,0 +1,279 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "@/lib/auth-client";
+import {
+  deleteDocument,
+  getDocument,
+  getExcerpt,
+  listDocuments,
+  saveCorrection,
+  type OCRDocument,
+  type OCRDocumentSummary,
+} from "@/lib/document-service";
+import { getPromptLabel } from "@/lib/deepseek-client";
+import { collectRegions, getMixedPromptTypes } from "@/lib/ocr-result";
+import { OCRPreview } from "@/components/ocr-preview";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, FileText, Loader2, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 20;
+
+/**
+ * Short plain-text excerpt around the first search term (or the start)
+ * @param text - The document's stored excerpt
+ */
+function getSnippet(text: string, query: string): string {
+  const plain = text.replace(/[#*_`>|]+/g, " ").replace(/\s+/g, " ").trim();
+  const term = query
+    .split(/\s+/)
+    .map((word) => word.replace(/^[-"]+|"+$/g, ""))
+    .find((word) => word.length > 1);
+  const index = term ? plain.toLowerCase().indexOf(term.toLowerCase()) : -1;
+  const start = Math.max(0, index - 60);
+  const snippet = plain.slice(start, start + 180);
+
+  return `${start > 0 ? "…" : ""}${snippet}${start + 180 < plain.length ? "…" : ""}`;
+}
+
+export default function HistoryPage() {
+  const router = useRouter();
+  const { data: session, isPending } = useSession();
+  const [query, setQuery] = useState("");
+  const [documents, setDocuments] = useState<OCRDocumentSummary[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<OCRDocument | null>(null);
+  // Only the latest listing request may update the list
+  const latestRequestRef = useRef(0);
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!isPending && !session) {
+      router.push("/auth/signin");
+    }
+  }, [session, isPending, router]);
+
+  const loadDocuments = useCallback(
+    async (search: string, offset: number) => {
+      if (!userId) return;
+
+      const requestId = ++latestRequestRef.current;
+      setIsLoading(true);
+      const { documents: page, hasMore: more, error } = await listDocuments(userId, {
+        query: search,
+        limit: PAGE_SIZE,
+        offset,
+      });
+
+      // A newer search started while this one was in flight
+      if (requestId !== latestRequestRef.current) return;
+
+      if (error) {
+        toast.error("Failed to load history");
+      }
+
+      setDocuments((prev) => (offset === 0 ? page : [...prev, ...page]));
+      setHasMore(more);
+      setIsLoading(false);
+    },
+    [userId]
+  );
+
+  // Debounce search so we don't query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => loadDocuments(query, 0), 300);
+    return () => clearTimeout(timeout);
+  }, [query, loadDocuments]);
+
+  const handleOpen = async (id: string) => {
+    if (!session?.user?.id) return;
+
+    setOpeningId(id);
+    const { document, error } = await getDocument(session.user.id, id);
+
+    if (document) {
+      setSelected(document);
+    } else {
+      toast.error(error || "Document not found");
+    }
+    setOpeningId(null);
+  };
+
+  const handleSaveCorrection = async (correctedText: string | null) => {
+    if (!session?.user?.id || !selected) return false;
+
+    const { success, error } = await saveCorrection(
+      session.user.id,
+      selected.id,
+      selected.text,
+      correctedText
+    );
+
+    if (!success) {
+      toast.error(error || "Failed to save corrections");
+      return false;
+    }
+
+    // Keep the list snippet in sync without refetching
+    const correctedAt = correctedText === null ? null : new Date().toISOString();
+    const update = { corrected_at: correctedAt, excerpt: getExcerpt(correctedText ?? selected.text) };
+    setSelected((prev) => (prev ? { ...prev, ...update, corrected_text: correctedText } : prev));
+    setDocuments((prev) => prev.map((doc) => (doc.id === selected.id ? { ...doc, ...update } : doc)));
+    return true;
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!session?.user?.id) return;
+
+    const { success, error } = await deleteDocument(session.user.id, id);
+
+    if (success) {
+      setDocuments((prev) => prev.filter((doc) => doc.id !== id));
+      toast.success("Removed from history");
+    } else {
+      toast.error(error || "Failed to delete document");
+    }
+  };
+
+  if (isPending) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!session) return null;
+
+  return (
+    <div className="min-h-screen">
+      {/* Header with back button */}
+      <header className="border-b">
+        <div className="container mx-auto flex items-center gap-4 p-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => (selected ? setSelected(null) : router.push("/"))}
+            className="shrink-0"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-semibold">History</h1>
+            <p className="text-sm text-muted-foreground">
+              Past extractions, searchable by file name and content
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto p-4 py-8">
+        {selected ? (
+          <div className="mx-auto max-w-6xl">
+            <OCRPreview
+              key={selected.id}
+              fileName={selected.file_name}
+              extractedText={selected.text}
+              tokensUsed={selected.tokens_used}
+              promptType={selected.prompt_type}
+              pagePromptTypes={getMixedPromptTypes(selected.pages, selected.prompt_type)}
+              regions={collectRegions(selected.pages)}
+              pages={selected.pages}
+              pageCount={selected.page_count}
+              correctedText={selected.corrected_text}
+              onSaveCorrection={handleSaveCorrection}
+              onClose={() => setSelected(null)}
+              closeLabel="Back to History"
+            />
+          </div>
+        ) : (
+          <div className="mx-auto max-w-2xl space-y-4">
+            <div className="relative">
+              <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder='Search, e.g. invoice "acme corp" -draft'
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-9"
+                aria-label="Search history"
+              />
+            </div>
+
+            {documents.length === 0 && !isLoading && (
+              <p className="py-12 text-center text-sm text-muted-foreground">
+                {query ? "No documents match your search." : "No extractions yet."}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              {documents.map((doc) => (
+                <Card
+                  key={doc.id}
+                  className="cursor-pointer transition-colors hover:bg-muted/50"
+                  onClick={() => handleOpen(doc.id)}
+                >
+                  <CardContent className="flex items-start gap-3 p-4">
+                    {openingId === doc.id ? (
+                      <Loader2 className="mt-0.5 h-4 w-4 shrink-0 animate-spin" />
+                    ) : (
+                      <FileText className="mt-0.5 h-4 w-4 shrink-0" />
+                    )}
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="truncate text-sm font-medium">{doc.file_name}</p>
+                        <Badge variant="outline">{getPromptLabel(doc.prompt_type)}</Badge>
+                        {doc.corrected_at !== null && <Badge variant="secondary">Edited</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(doc.created_at).toLocaleString()} •{" "}
+                        {doc.page_count} page{doc.page_count === 1 ? "" : "s"} •{" "}
+                        {doc.tokens_used.toLocaleString()} tokens
+                      </p>
+                      <p className="line-clamp-2 text-sm text-muted-foreground">
+                        {getSnippet(doc.excerpt, query)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(doc.id);
+                      }}
+                      aria-label={`Delete ${doc.file_name}`}
+                      className="shrink-0"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {isLoading && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            )}
+
+            {hasMore && !isLoading && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={() => loadDocuments(query, documents.length)}>
+                  Load More
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
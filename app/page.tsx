@@ -4,9 +4,35 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useSession } from "@/lib/auth-client";
-import { getApiKey } from "@/lib/api-key-service";
-import { extractText, fileToBase64, validateFile } from "@/lib/deepseek-client";
-import { pdfToImages, isPDF } from "@/lib/pdf-utils";
+import { getActiveModel, hasApiKey } from "@/lib/api-key-service";
+import { getCacheKey, withResultCache } from "@/lib/result-cache";
+import {
+  extractTextWithRetry,
+  validateFile,
+  type OCRPromptType,
+  type RetryAttempt,
+} from "@/lib/deepseek-client";
+import { hasPages, isPDF, openPages } from "@/lib/pdf-utils";
+import { formatBytes, prepareImage } from "@/lib/image-prep";
+import { getFileType } from "@/lib/image-decoders";
+import { canUseTextLayer, getTextLayerFormat } from "@/lib/pdf-text";
+import { parseGroundedText, type GroundingRegion } from "@/lib/grounding";
+import {
+  collectRegions,
+  combinePageText,
+  createPageResult,
+  createTextLayerResult,
+  getMixedPromptTypes,
+  sumTokens,
+  type PageResult,
+} from "@/lib/ocr-result";
+import { saveCorrection, saveDocument } from "@/lib/document-service";
+import {
+  createUploadItem,
+  getPagePromptType,
+  getSelectedPages,
+  type UploadItem,
+} from "@/lib/upload-item";
 import { OCRUploader } from "@/components/ocr-uploader";
 import { CapturePreviewModal } from "@/components/capture-preview-modal";
 import { OCRPreview } from "@/components/ocr-preview";
@@ -15,7 +41,7 @@ import { BatchProcessor } from "@/components/batch-processor";
 import { UserAvatar } from "@/components/user-avatar";
 import { Button } from "@/components/ui/button";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { Loader2, Sparkles } from "lucide-react";
+import { History, Loader2, Sparkles } from "lucide-react";
 import { toast } from "sonner";
 
 type ViewMode = "upload" | "processing" | "single-preview" | "batch-processing";
@@ -26,22 +52,44 @@ interface ProcessingState {
   currentStep: string;
   currentPage?: number;
   totalPages?: number;
+  attempt?: number;
+  maxAttempts?: number;
+  partialText?: string;
+}
+
+const RETRY_REASONS: Record<string, string> = {
+  rate_limit: "Rate limited",
+  timeout: "Request timed out",
+  network: "Network error",
+  server: "Provider error",
+};
+
+interface SingleResult {
+  text: string;
+  tokens: number;
+  fileName: string;
+  mimeType: string;
+  file: File;
+  filePreview?: string;
+  promptType: OCRPromptType;
+  pagePromptTypes?: Record<number, OCRPromptType>;
+  pages: PageResult[];
+  pageCount: number;
+  regions?: GroundingRegion[];
+  pagePreviews?: Record<number, string>;
+  rotations: Record<number, number>; // As chosen before OCR, for searchable PDFs
+  documentId?: string; // Set once saved to history
 }
 
 export default function Page() {
   const router = useRouter();
   const { data: session, isPending } = useSession();
-  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [hasKey, setHasKey] = useState(false);
   const [isLoadingKey, setIsLoadingKey] = useState(true);
-  const [files, setFiles] = useState<File[]>([]);
+  const [items, setItems] = useState<UploadItem[]>([]);
   const [viewMode, setViewMode] = useState<ViewMode>("upload");
   const [processingState, setProcessingState] = useState<ProcessingState | null>(null);
-  const [singleResult, setSingleResult] = useState<{
-    text: string;
-    tokens: number;
-    fileName: string;
-    filePreview?: string;
-  } | null>(null);
+  const [singleResult, setSingleResult] = useState<SingleResult | null>(null);
   const [showNoKeyDialog, setShowNoKeyDialog] = useState(false);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
   const [capturedFile, setCapturedFile] = useState<File | null>(null);
@@ -65,20 +113,18 @@ export default function Page() {
     if (!session?.user?.id) return;
 
     setIsLoadingKey(true);
-    const { apiKey: key, error } = await getApiKey(session.user.id);
+    // Only check that a key exists - the OCR route decrypts it server-side
+    const keyExists = await hasApiKey(session.user.id);
 
-    if (error) {
-      toast.error("Failed to load API key");
-    } else if (!key) {
+    if (!keyExists) {
       setShowNoKeyDialog(true);
-    } else {
-      setApiKey(key);
     }
+    setHasKey(keyExists);
     setIsLoadingKey(false);
   };
 
-  const handleFilesSelected = (selectedFiles: File[]) => {
-    setFiles(selectedFiles);
+  const handleItemsChange = (updatedItems: UploadItem[]) => {
+    setItems(updatedItems);
   };
 
   const handleCameraCapture = (file: File) => {
@@ -95,11 +141,9 @@ export default function Page() {
     setShowPreviewModal(true);
   };
 
-  const handleConfirmCapture = () => {
-    if (capturedFile) {
-      setFiles((prev) => [...prev, capturedFile]);
-      toast.success("Photo added!");
-    }
+  const handleConfirmCapture = (file: File) => {
+    setItems((prev) => [...prev, createUploadItem(file)]);
+    toast.success("Photo added!");
     setShowPreviewModal(false);
     setCapturedFile(null);
   };
@@ -116,28 +160,30 @@ export default function Page() {
   };
 
   const handleExtractText = async () => {
-    if (!apiKey) {
+    if (!hasKey) {
       toast.error("Please add your API key in Settings");
       setShowNoKeyDialog(true);
       return;
     }
 
-    if (files.length === 0) {
+    if (items.length === 0) {
       toast.error("Please upload at least one file");
       return;
     }
 
     // Single file: show processing overlay then preview
-    if (files.length === 1) {
-      await processSingleFile(files[0]);
+    if (items.length === 1) {
+      await processSingleFile(items[0]);
     } else {
       // Multiple files: show batch processor
       setViewMode("batch-processing");
     }
   };
 
-  const processSingleFile = async (file: File) => {
-    if (!apiKey) return;
+  const processSingleFile = async (item: UploadItem) => {
+    if (!hasKey || !session?.user?.id) return;
+
+    const { file } = item;
 
     // Create abort controller for cancellation
     const controller = new AbortController();
@@ -150,69 +196,160 @@ export default function Page() {
       currentStep: "Preparing file...",
     });
 
+    // Surface retries in the overlay
+    const onRetry = ({ attempt, maxAttempts, error }: RetryAttempt) => {
+      setProcessingState((prev) => ({
+        ...prev!,
+        currentStep: `${RETRY_REASONS[error.type] ?? "Request failed"}, retrying...`,
+        attempt,
+        maxAttempts,
+        partialText: undefined,
+      }));
+    };
+
+    // Show the response live as it streams in
+    const onPartial = (promptType: OCRPromptType) => (text: string) => {
+      setProcessingState((prev) => ({
+        ...prev!,
+        partialText: promptType === "grounding" ? parseGroundedText(text).text : text,
+      }));
+    };
+
     try {
-      let allText = "";
-      let totalTokens = 0;
+      // Images already read with the same prompt and model are answered from the cache
+      const model = await getActiveModel(session.user.id);
       let filePreview: string | undefined;
+      let pagePreviews: Record<number, string> | undefined;
+      let pageCount = 1;
+      const pageResults: PageResult[] = [];
 
-      if (isPDF(file)) {
+      if (hasPages(file)) {
         // Update state for PDF conversion
         setProcessingState((prev) => ({
           ...prev!,
-          currentStep: "Converting PDF to images...",
+          currentStep: isPDF(file) ? "Opening PDF..." : "Decoding image...",
         }));
 
-        const pages = await pdfToImages(file);
-
-        // Set preview from first page
-        if (pages.length > 0) {
-          filePreview = `data:image/png;base64,${pages[0].imageBase64}`;
+        // Rasterising runs in a worker; mirror its progress in the overlay
+        const pdf = await openPages(file, {
+          signal: controller.signal,
+          onProgress: ({ stage, pageNumber, percent }) => {
+            setProcessingState((prev) => prev && {
+              ...prev,
+              currentStep:
+                stage === "loading"
+                  ? `Opening PDF... ${percent}%`
+                  : `${stage === "rendering" ? "Rendering" : "Encoding"} page ${pageNumber}...`,
+            });
+          },
+        });
+        // Region overlays need every page image; keep them only for grounded documents
+        const keepPreviews =
+          item.promptType === "grounding" ||
+          item.pagePrompts.some((override) => override.promptType === "grounding");
+        const previews: Record<number, string> = {};
+        let completed = false;
+
+        try {
+          pageCount = pdf.numPages;
+          const selectedPages = getSelectedPages(item, pageCount);
           setProcessingState((prev) => ({
             ...prev!,
-            filePreview,
-            totalPages: pages.length,
+            totalPages: selectedPages.length,
             currentPage: 0,
           }));
-        }
-
-        for (let i = 0; i < pages.length; i++) {
-          // Check if cancelled
-          if (controller.signal.aborted) {
-            return;
-          }
 
-          const page = pages[i];
+          const addPreview = (pageNumber: number, previewUrl?: string) => {
+            if (previewUrl) {
+              previews[pageNumber] = previewUrl;
+            }
 
-          setProcessingState((prev) => ({
-            ...prev!,
-            currentStep: `Extracting text from page ${i + 1}...`,
-            currentPage: i + 1,
-          }));
+            // Set preview from the first selected page
+            if (pageNumber === selectedPages[0]) {
+              filePreview = previewUrl;
+              setProcessingState((prev) => ({ ...prev!, filePreview }));
+            }
+          };
 
-          const { data, error } = await extractText(
-            page.imageBase64,
-            apiKey,
-            "image/png"
-          );
-
-          if (error) {
-            toast.error(`Error on page ${i + 1}: ${error.message}`);
-            if (error.type === "invalid_key") {
-              setShowNoKeyDialog(true);
-              handleReset();
+          // Render pages one at a time so only the page in flight is held in memory
+          for (const [index, pageNumber] of selectedPages.entries()) {
+            // Check if cancelled
+            if (controller.signal.aborted) {
               return;
             }
-          } else if (data) {
-            // Add page separator for multi-page PDFs
-            if (pages.length > 1 && i > 0) {
-              allText += `\n\n---\n\n## Page ${i + 1}\n\n`;
-            } else if (pages.length > 1) {
-              allText += `## Page 1\n\n`;
+
+            const promptType = getPagePromptType(item, pageNumber);
+            const rotation = item.rotations[pageNumber];
+
+            setProcessingState((prev) => ({
+              ...prev!,
+              currentStep: `Reading page ${pageNumber}...`,
+              currentPage: index + 1,
+              attempt: undefined,
+              partialText: undefined,
+            }));
+
+            // Born-digital pages are read from their text layer instead of OCR
+            const textLayer =
+              item.useTextLayer && canUseTextLayer(promptType)
+                ? await pdf.readText(pageNumber, getTextLayerFormat(promptType))
+                : null;
+            const withPreview = keepPreviews || index === 0;
+
+            if (textLayer?.kind === "text") {
+              // Still rendered when its preview is needed
+              if (withPreview) {
+                addPreview(pageNumber, (await pdf.renderPage(pageNumber, { rotation, withPreview })).previewUrl);
+              }
+              pageResults.push(createTextLayerResult(textLayer.text, pageNumber, promptType));
+              continue;
             }
-            allText += data.text;
-            totalTokens += data.tokensUsed;
+
+            const page = await pdf.renderPage(pageNumber, { rotation, withPreview });
+            addPreview(pageNumber, page.previewUrl);
+
+            setProcessingState((prev) => ({
+              ...prev!,
+              currentStep: `Extracting text from page ${pageNumber} (${formatBytes(page.bytes)})...`,
+            }));
+
+            const { data, error, cached } = await withResultCache(getCacheKey(session.user.id, page.hash, promptType, model), () =>
+              extractTextWithRetry(page.imageBase64, page.mimeType, promptType, {
+                onRetry,
+                onPartial: onPartial(promptType),
+                signal: controller.signal,
+              })
+            );
+
+            if (error?.type === "cancelled") {
+              return;
+            } else if (error) {
+              toast.error(`Error on page ${pageNumber}: ${error.message}`);
+              if (error.type === "invalid_key") {
+                setShowNoKeyDialog(true);
+                handleReset();
+                return;
+              }
+            } else if (data) {
+              pageResults.push(createPageResult(data, pageNumber, promptType, cached));
+            }
+          }
+          completed = true;
+        } finally {
+          await pdf.destroy();
+          if (!completed) {
+            Object.values(previews).forEach((url) => URL.revokeObjectURL(url));
           }
         }
+
+        if (keepPreviews && collectRegions(pageResults)) {
+          pagePreviews = previews;
+        } else {
+          // Only the first page is shown
+          Object.values(previews)
+            .filter((url) => url !== filePreview)
+            .forEach((url) => URL.revokeObjectURL(url));
+        }
       } else {
         // Regular image processing
         setProcessingState((prev) => ({
@@ -220,13 +357,14 @@ export default function Page() {
           currentStep: "Reading image...",
         }));
 
-        const base64 = await fileToBase64(file);
-        filePreview = `data:${file.type};base64,${base64}`;
+        // Large photos are downscaled so the request stays well inside the timeout
+        const image = await prepareImage(file);
+        filePreview = `data:${image.mimeType};base64,${image.base64}`;
 
         setProcessingState((prev) => ({
           ...prev!,
           filePreview,
-          currentStep: "Analyzing document...",
+          currentStep: `Prepared ${image.width}×${image.height} image (${formatBytes(image.bytes)})...`,
         }));
 
         // Check if cancelled
@@ -239,9 +377,17 @@ export default function Page() {
           currentStep: "Extracting text with AI...",
         }));
 
-        const { data, error } = await extractText(base64, apiKey, file.type);
+        const { data, error, cached } = await withResultCache(getCacheKey(session.user.id, image.hash, item.promptType, model), () =>
+          extractTextWithRetry(image.base64, image.mimeType, item.promptType, {
+            onRetry,
+            onPartial: onPartial(item.promptType),
+            signal: controller.signal,
+          })
+        );
 
-        if (error) {
+        if (error?.type === "cancelled") {
+          return;
+        } else if (error) {
           toast.error(`Error: ${error.message}`);
           if (error.type === "invalid_key") {
             setShowNoKeyDialog(true);
@@ -249,20 +395,36 @@ export default function Page() {
           handleReset();
           return;
         } else if (data) {
-          allText = data.text;
-          totalTokens = data.tokensUsed;
+          pageResults.push(createPageResult(data, 1, item.promptType, cached));
         }
       }
 
+      const allText = combinePageText(pageResults, pageCount > 1);
+
       if (allText) {
-        setSingleResult({
+        const result: SingleResult = {
           text: allText,
-          tokens: totalTokens,
+          tokens: sumTokens(pageResults),
           fileName: file.name,
+          mimeType: getFileType(file),
+          file,
           filePreview,
-        });
+          promptType: item.promptType,
+          pagePromptTypes: getMixedPromptTypes(pageResults, item.promptType),
+          pages: pageResults,
+          pageCount,
+          regions: collectRegions(pageResults),
+          pagePreviews,
+          rotations: item.rotations,
+        };
+        setSingleResult(result);
         setViewMode("single-preview");
         toast.success("Text extracted successfully!");
+        saveToHistory(result).then((documentId) => {
+          if (documentId) {
+            setSingleResult((prev) => (prev === result ? { ...prev, documentId } : prev));
+          }
+        });
       } else {
         toast.error("No text could be extracted");
         handleReset();
@@ -279,6 +441,52 @@ export default function Page() {
     }
   };
 
+  const saveToHistory = async (result: {
+    fileName: string;
+    mimeType: string;
+    promptType: OCRPromptType;
+    pageCount: number;
+    pages: PageResult[];
+    text: string;
+    tokens: number;
+  }): Promise<string | undefined> => {
+    if (!session?.user?.id) return;
+
+    const { id, error } = await saveDocument(session.user.id, {
+      fileName: result.fileName,
+      mimeType: result.mimeType,
+      promptType: result.promptType,
+      pageCount: result.pageCount,
+      pages: result.pages,
+      text: result.text,
+      tokensUsed: result.tokens,
+    });
+
+    if (error) {
+      toast.error(`${result.fileName}: Couldn't save to history`);
+    }
+    return id;
+  };
+
+  const handleSaveCorrection = async (correctedText: string | null) => {
+    if (!session?.user?.id || !singleResult?.documentId) {
+      toast.info("Not saved to history, corrections apply to this session only");
+      return true;
+    }
+
+    const { success, error } = await saveCorrection(
+      session.user.id,
+      singleResult.documentId,
+      singleResult.text,
+      correctedText
+    );
+
+    if (!success) {
+      toast.error(error || "Failed to save corrections");
+    }
+    return success;
+  };
+
   const handleCancel = () => {
     if (abortController) {
       abortController.abort();
@@ -288,7 +496,11 @@ export default function Page() {
   };
 
   const handleReset = () => {
-    setFiles([]);
+    // PDF page previews are object URLs
+    [singleResult?.filePreview, ...Object.values(singleResult?.pagePreviews ?? {})]
+      .filter((url) => url?.startsWith("blob:"))
+      .forEach((url) => URL.revokeObjectURL(url!));
+    setItems([]);
     setViewMode("upload");
     setSingleResult(null);
     setProcessingState(null);
@@ -314,6 +526,11 @@ export default function Page() {
             <h1 className="text-2xl font-bold">vOCR</h1>
           </div>
           <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/history" aria-label="History">
+                <History className="h-5 w-5" />
+              </Link>
+            </Button>
             <Link href="/settings">
               <UserAvatar
                 name={session.user.name}
@@ -342,11 +559,12 @@ export default function Page() {
             </div>
 
             <OCRUploader
-              onFilesSelected={handleFilesSelected}
+              items={items}
+              onItemsChange={handleItemsChange}
               onCameraCapture={handleCameraCapture}
             />
 
-            {files.length > 0 && (
+            {items.length > 0 && (
               <div className="flex justify-center animate-in fade-in slide-in-from-bottom-4 duration-300">
                 <Button
                   size="lg"
@@ -354,7 +572,7 @@ export default function Page() {
                   className="gap-2 text-base px-8 py-6 rounded-xl shadow-lg hover:shadow-xl transition-shadow"
                 >
                   <Sparkles className="h-5 w-5" />
-                  {files.length === 1 ? "Extract Text" : `Extract from ${files.length} files`}
+                  {items.length === 1 ? "Extract Text" : `Extract from ${items.length} files`}
                 </Button>
               </div>
             )}
@@ -368,6 +586,9 @@ export default function Page() {
             currentStep={processingState.currentStep}
             currentPage={processingState.currentPage}
             totalPages={processingState.totalPages}
+            attempt={processingState.attempt}
+            maxAttempts={processingState.maxAttempts}
+            partialText={processingState.partialText}
             onCancel={handleCancel}
           />
         )}
@@ -379,14 +600,37 @@ export default function Page() {
               extractedText={singleResult.text}
               filePreview={singleResult.filePreview}
               tokensUsed={singleResult.tokens}
+              promptType={singleResult.promptType}
+              pagePromptTypes={singleResult.pagePromptTypes}
+              regions={singleResult.regions}
+              pagePreviews={singleResult.pagePreviews}
+              pages={singleResult.pages}
+              pageCount={singleResult.pageCount}
+              sourceFile={singleResult.file}
+              sourceRotations={singleResult.rotations}
+              onSaveCorrection={handleSaveCorrection}
               onClose={handleReset}
             />
           </div>
         )}
 
-        {viewMode === "batch-processing" && files.length > 1 && apiKey && (
+        {viewMode === "batch-processing" && items.length > 1 && hasKey && (
           <div className="mx-auto max-w-4xl">
-            <BatchProcessor files={files} apiKey={apiKey} onComplete={handleReset} />
+            <BatchProcessor
+              items={items}
+              onComplete={handleReset}
+              onFileComplete={(result) =>
+                saveToHistory({
+                  fileName: result.filename,
+                  mimeType: getFileType(result.file),
+                  promptType: result.promptType,
+                  pageCount: result.pageCount ?? 1,
+                  pages: result.pages ?? [],
+                  text: result.extractedText ?? "",
+                  tokens: result.tokensUsed ?? 0,
+                })
+              }
+            />
             <div className="mt-4">
               <Button variant="outline" onClick={handleReset}>
                 ← Start Over
@@ -402,7 +646,7 @@ export default function Page() {
           <AlertDialogHeader>
             <AlertDialogTitle>API Key Required</AlertDialogTitle>
             <AlertDialogDescription>
-              You need to add your DeepInfra API key to use OCR features. Get your free API key from DeepInfra and add it in Settings.
+              You need to add an API key for your OCR provider to use OCR features. Get a free key from DeepInfra, or connect your own OpenAI-compatible server, in Settings.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
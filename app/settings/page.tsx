@@ -24,26 +24,55 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
-import { saveApiKey, getApiKey, deleteApiKey } from "@/lib/api-key-service";
+import {
+  saveApiKey,
+  getStoredKey,
+  deleteApiKey,
+  getActiveProvider,
+  setActiveProvider,
+} from "@/lib/api-key-service";
 import { maskApiKey, validateApiKeyFormat } from "@/lib/encryption";
-import { Loader2, Eye, EyeOff, Trash2, Pencil, X, ArrowLeft, LogOut } from "lucide-react";
+import { testApiKey } from "@/lib/deepseek-client";
+import {
+  DEFAULT_OCR_PROVIDER,
+  OCR_PROVIDERS,
+  getOCRProvider,
+  validateBaseUrl,
+  type OCRProviderId,
+} from "@/lib/ocr-providers";
+import { Loader2, Trash2, Pencil, X, ArrowLeft, LogOut } from "lucide-react";
 import { signOut } from "@/lib/auth-client";
+import { clearResultCache } from "@/lib/result-cache";
 import { UserAvatar } from "@/components/user-avatar";
+import { TemplateManager } from "@/components/template-manager";
 
 export default function SettingsPage() {
   const router = useRouter();
   const { data: session, isPending } = useSession();
-  const [apiKey, setApiKey] = useState("");
+  // Only a masked copy of the stored key is ever loaded into the page
   const [maskedKey, setMaskedKey] = useState<string | null>(null);
   const [editValue, setEditValue] = useState("");
-  const [showApiKey, setShowApiKey] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isPageLoading, setIsPageLoading] = useState(true);
   const [isTesting, setIsTesting] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [hasExistingKey, setHasExistingKey] = useState(false);
+  const [provider, setProvider] = useState<OCRProviderId>(DEFAULT_OCR_PROVIDER);
+  const [model, setModel] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [editModel, setEditModel] = useState("");
+  const [editBaseUrl, setEditBaseUrl] = useState("");
+
+  const providerInfo = getOCRProvider(provider);
 
   useEffect(() => {
     if (!isPending && !session) {
@@ -61,56 +90,103 @@ export default function SettingsPage() {
     if (!session?.user?.id) return;
 
     setIsPageLoading(true);
-    const { apiKey: existingKey, error } = await getApiKey(session.user.id);
+    const activeProvider = await getActiveProvider(session.user.id);
+    setProvider(activeProvider);
+    await loadProviderKey(activeProvider);
+    setIsPageLoading(false);
+  };
+
+  const loadProviderKey = async (providerId: OCRProviderId) => {
+    if (!session?.user?.id) return;
+
+    const { data: stored, error } = await getStoredKey(providerId);
 
     if (error) {
       toast.error("Failed to load API key");
-    } else if (existingKey) {
-      setApiKey(existingKey);
-      setMaskedKey(maskApiKey(existingKey));
-      setHasExistingKey(true);
     }
-    setIsPageLoading(false);
+
+    setMaskedKey(stored?.maskedKey ?? null);
+    setModel(stored?.model ?? "");
+    setBaseUrl(stored?.baseUrl ?? "");
+    setHasExistingKey(!!stored?.hasKey);
+    setEditValue("");
+    setEditModel(stored?.model ?? "");
+    setEditBaseUrl(stored?.baseUrl ?? "");
+    setIsEditing(false);
+  };
+
+  const handleProviderChange = async (providerId: OCRProviderId) => {
+    if (!session?.user?.id || providerId === provider) return;
+
+    setProvider(providerId);
+    const { success, error } = await setActiveProvider(session.user.id, providerId);
+
+    if (success) {
+      toast.success(`Now extracting with ${getOCRProvider(providerId).name}`);
+    } else {
+      toast.error(error || "Failed to change provider");
+    }
+    await loadProviderKey(providerId);
   };
 
   const handleStartEdit = () => {
-    setEditValue(apiKey);
+    setEditValue("");
+    setEditModel(model);
+    setEditBaseUrl(baseUrl);
     setIsEditing(true);
-    setShowApiKey(true);
   };
 
   const handleCancelEdit = () => {
     setEditValue("");
     setIsEditing(false);
-    setShowApiKey(false);
   };
 
+  // Keys are optional for self-hosted servers, which often run without auth.
+  // A blank key while editing keeps the stored one.
+  const canSave =
+    (!providerInfo.requiresApiKey || hasExistingKey || !!editValue.trim()) &&
+    (!providerInfo.requiresBaseUrl || !!editBaseUrl.trim());
+
   const handleSaveApiKey = async () => {
     if (!session?.user?.id) return;
 
-    const keyToSave = isEditing ? editValue : editValue;
+    const keyToSave = editValue.trim();
+    const keepStoredKey = hasExistingKey && !keyToSave;
 
-    if (!keyToSave.trim()) {
+    if (providerInfo.requiresApiKey && !keyToSave && !keepStoredKey) {
       toast.error("Please enter an API key");
       return;
     }
 
-    if (!validateApiKeyFormat(keyToSave)) {
+    if (provider === "deepinfra" && !keepStoredKey && !validateApiKeyFormat(keyToSave)) {
       toast.error("Invalid format. Key must be at least 20 characters.");
       return;
     }
 
+    if (providerInfo.requiresBaseUrl) {
+      const baseUrlError = validateBaseUrl(editBaseUrl.trim());
+      if (baseUrlError) {
+        toast.error(baseUrlError);
+        return;
+      }
+    }
+
     setIsLoading(true);
-    const { success, error } = await saveApiKey(session.user.id, keyToSave);
+    const { success, error } = await saveApiKey(session.user.id, keepStoredKey ? null : keyToSave, provider, {
+      model: editModel.trim(),
+      baseUrl: editBaseUrl.trim(),
+    });
 
     if (success) {
       toast.success("API key saved!");
-      setApiKey(keyToSave);
-      setMaskedKey(maskApiKey(keyToSave));
+      if (!keepStoredKey) {
+        setMaskedKey(keyToSave ? maskApiKey(keyToSave) : null);
+      }
+      setModel(editModel.trim());
+      setBaseUrl(editBaseUrl.trim());
       setEditValue("");
       setHasExistingKey(true);
       setIsEditing(false);
-      setShowApiKey(false);
     } else {
       toast.error(error || "Failed to save API key");
     }
@@ -118,62 +194,52 @@ export default function SettingsPage() {
   };
 
   const handleTestApiKey = async () => {
-    const keyToTest = isEditing ? editValue : apiKey;
+    const isUnsaved = isEditing || !hasExistingKey;
 
-    if (!keyToTest) {
+    if (isUnsaved ? !canSave : !hasExistingKey) {
       toast.error("No API key to test");
       return;
     }
 
     setIsTesting(true);
-    try {
-      const response = await fetch(
-        "https://api.deepinfra.com/v1/openai/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${keyToTest}`,
-          },
-          body: JSON.stringify({
-            model: "deepseek-ai/DeepSeek-OCR",
-            messages: [
-              {
-                role: "user",
-                content: [{ type: "text", text: "Test connection" }],
-              },
-            ],
-            max_tokens: 10,
-          }),
-        }
-      );
-
-      if (response.ok) {
-        toast.success("API key is valid!");
-      } else if (response.status === 401) {
-        toast.error("API key is invalid or expired");
-      } else {
-        toast.error(`Test failed: ${response.status}`);
-      }
-    } catch (error) {
+    // Unsaved settings are sent for testing; the stored key is resolved server-side
+    const { error } = await testApiKey(
+      isUnsaved
+        ? {
+            provider,
+            apiKey: editValue.trim() || undefined,
+            model: editModel.trim() || undefined,
+            baseUrl: editBaseUrl.trim() || undefined,
+          }
+        : undefined
+    );
+
+    if (!error) {
+      toast.success("API key is valid!");
+    } else if (error.type === "invalid_key") {
+      toast.error("API key is invalid or expired");
+    } else if (error.type === "network" || error.type === "timeout") {
       toast.error("Connection failed");
-      console.error("API test error:", error);
-    } finally {
-      setIsTesting(false);
+    } else {
+      toast.error(`Test failed: ${error.message}`);
     }
+    setIsTesting(false);
   };
 
   const handleDeleteApiKey = async () => {
     if (!session?.user?.id) return;
 
     setIsLoading(true);
-    const { success, error } = await deleteApiKey(session.user.id);
+    const { success, error } = await deleteApiKey(session.user.id, provider);
 
     if (success) {
       toast.success("API key deleted");
-      setApiKey("");
       setMaskedKey(null);
+      setModel("");
+      setBaseUrl("");
       setEditValue("");
+      setEditModel("");
+      setEditBaseUrl("");
       setHasExistingKey(false);
       setIsEditing(false);
     } else {
@@ -208,7 +274,7 @@ export default function SettingsPage() {
           <div>
             <h1 className="text-xl font-semibold">Settings</h1>
             <p className="text-sm text-muted-foreground">
-              Manage your API key
+              Manage your OCR provider, API key and field templates
             </p>
           </div>
         </div>
@@ -216,46 +282,76 @@ export default function SettingsPage() {
 
       {/* Main content */}
       <main className="container mx-auto max-w-lg p-4 py-8 space-y-6">
+        {/* Provider Card */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">OCR Provider</CardTitle>
+            <CardDescription>{providerInfo.description}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Select
+              value={provider}
+              onValueChange={(value) => handleProviderChange(value as OCRProviderId)}
+            >
+              <SelectTrigger className="w-full" aria-label="OCR provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(OCR_PROVIDERS).map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+
         {/* API Key Card */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-lg">DeepInfra API Key</CardTitle>
+            <CardTitle className="text-lg">{providerInfo.name} API Key</CardTitle>
             <CardDescription>
-              Get your API key from{" "}
-              <a
-                href="https://deepinfra.com/"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-primary hover:underline"
-              >
-                DeepInfra
-              </a>
+              {provider === "deepinfra" ? (
+                <>
+                  Get your API key from{" "}
+                  <a
+                    href="https://deepinfra.com/"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    DeepInfra
+                  </a>
+                </>
+              ) : (
+                "Point vOCR at any server exposing /v1/chat/completions. The key is optional."
+              )}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             {/* Existing key: View/Edit mode */}
             {hasExistingKey && !isEditing ? (
               <div className="space-y-3">
+                {providerInfo.requiresBaseUrl && (
+                  <p className="text-sm">
+                    <span className="text-muted-foreground">Base URL: </span>
+                    <span className="font-mono break-all">{baseUrl}</span>
+                  </p>
+                )}
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Model: </span>
+                  <span className="font-mono break-all">{model || providerInfo.defaultModel}</span>
+                </p>
                 <Label>Your API Key</Label>
                 <div className="flex gap-2">
                   <Input
-                    type={showApiKey ? "text" : "password"}
-                    value={showApiKey ? apiKey : maskedKey || ""}
+                    type="text"
+                    value={maskedKey ?? ""}
+                    placeholder="No key (server without auth)"
                     readOnly
                     className="font-mono bg-muted"
                   />
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="icon"
-                    onClick={() => setShowApiKey(!showApiKey)}
-                  >
-                    {showApiKey ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
-                  </Button>
                   <Button
                     type="button"
                     variant="outline"
@@ -280,24 +376,57 @@ export default function SettingsPage() {
             ) : (
               /* Edit mode or new key entry */
               <div className="space-y-3">
+                {providerInfo.requiresBaseUrl && (
+                  <>
+                    <Label htmlFor="baseUrl">Base URL</Label>
+                    <Input
+                      id="baseUrl"
+                      type="url"
+                      placeholder="https://ocr.example.com/v1"
+                      value={editBaseUrl}
+                      onChange={(e) => setEditBaseUrl(e.target.value)}
+                      className="font-mono"
+                    />
+                  </>
+                )}
+                <Label htmlFor="model">Model</Label>
+                <Input
+                  id="model"
+                  type="text"
+                  list="model-suggestions"
+                  placeholder={providerInfo.defaultModel}
+                  value={editModel}
+                  onChange={(e) => setEditModel(e.target.value)}
+                  className="font-mono"
+                />
+                <datalist id="model-suggestions">
+                  {providerInfo.suggestedModels.map((suggestion) => (
+                    <option key={suggestion} value={suggestion} />
+                  ))}
+                </datalist>
                 <Label htmlFor="apiKey">
                   {hasExistingKey ? "Edit API Key" : "Enter API Key"}
+                  {!providerInfo.requiresApiKey && " (optional)"}
                 </Label>
                 <Input
                   id="apiKey"
                   type="text"
-                  placeholder="Enter your DeepInfra API key"
+                  placeholder={
+                    hasExistingKey
+                      ? "Leave blank to keep the current key"
+                      : `Enter your ${providerInfo.name} API key`
+                  }
                   value={editValue}
                   onChange={(e) => setEditValue(e.target.value)}
                   className="font-mono"
-                  autoFocus
+                  autoFocus={!providerInfo.requiresBaseUrl}
                 />
 
                 {/* Action buttons - stacked on mobile */}
                 <div className="flex flex-col gap-2 sm:flex-row sm:gap-2">
                   <Button
                     onClick={handleSaveApiKey}
-                    disabled={isLoading || !editValue.trim()}
+                    disabled={isLoading || !canSave}
                     className="w-full sm:flex-1"
                   >
                     {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -307,7 +436,7 @@ export default function SettingsPage() {
                   <Button
                     variant="outline"
                     onClick={handleTestApiKey}
-                    disabled={isTesting || !editValue.trim()}
+                    disabled={isTesting || !canSave}
                     className="w-full sm:flex-1"
                   >
                     {isTesting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -330,6 +459,9 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Field templates for structured extraction */}
+        <TemplateManager userId={session.user.id} />
+
         {/* Danger Zone - Only shown when key exists */}
         {hasExistingKey && (
           <Card className="border-destructive/50">
@@ -339,7 +471,7 @@ export default function SettingsPage() {
             <CardContent>
               <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                 <div className="text-sm text-muted-foreground">
-                  Permanently delete your API key
+                  Permanently delete your {providerInfo.name} API key
                 </div>
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
@@ -402,6 +534,7 @@ export default function SettingsPage() {
               <Button
                 variant="outline"
                 onClick={async () => {
+                  await clearResultCache();
                   await signOut();
                   router.push("/auth/signin");
                 }}
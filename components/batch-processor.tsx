@@ -1,13 +1,74 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { extractText, fileToBase64 } from "@/lib/deepseek-client";
-import { pdfToImages, isPDF } from "@/lib/pdf-utils";
-import { Download, Copy, CheckCircle2, XCircle, Loader2, FileText } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  extractFields,
+  extractText,
+  getPromptLabel,
+  retryWithBackoff,
+  type OCRError,
+  type OCRPromptType,
+} from "@/lib/deepseek-client";
+import { useSession } from "@/lib/auth-client";
+import { hasPages, openPages } from "@/lib/pdf-utils";
+import { prepareImage } from "@/lib/image-prep";
+import { canUseTextLayer, getTextLayerFormat } from "@/lib/pdf-text";
+import { getPagePromptType, getSelectedPages, type UploadItem } from "@/lib/upload-item";
+import {
+  EXPORT_FORMATS,
+  exportDocument,
+  getExportFileName,
+  type ExportFormat,
+} from "@/lib/export";
+import { extractTables, rowsToCSVBlob, tableToRows } from "@/lib/tables";
+import { fieldsToRows, runTemplate } from "@/lib/field-extraction";
+import type { ExtractedField, FieldTemplate } from "@/lib/field-templates";
+import { listTemplates } from "@/lib/template-service";
+import { getActiveModel } from "@/lib/api-key-service";
+import { getCacheKey, withResultCache } from "@/lib/result-cache";
+import { createWorkbook } from "@/lib/xlsx";
+import { createWorkerPool, mapWithConcurrency, type WorkerPool } from "@/lib/worker-pool";
+import {
+  combinePageText,
+  createPageResult,
+  createTextLayerResult,
+  formatPageList,
+  getCachedPages,
+  getMixedPromptTypes,
+  getTextLayerPages,
+  sumTokens,
+  type PageResult,
+} from "@/lib/ocr-result";
+import {
+  Download,
+  Copy,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  FileText,
+  AlertTriangle,
+  Pause,
+  Play,
+  Square,
+} from "lucide-react";
 import { toast } from "sonner";
 import JSZip from "jszip";
 import { saveAs } from "file-saver";
@@ -15,120 +76,325 @@ import { saveAs } from "file-saver";
 export type FileResult = {
   filename: string;
   file: File;
-  status: "pending" | "processing" | "success" | "error";
+  /** Page rotations applied before OCR, for searchable PDFs */
+  rotations?: Record<number, number>;
+  /** "partial" means some PDF pages failed; their text is kept and the rest can be retried */
+  status: "pending" | "processing" | "success" | "partial" | "error";
+  promptType: OCRPromptType;
+  pagePromptTypes?: Record<number, OCRPromptType>;
+  pages?: PageResult[];
+  pageCount?: number;
+  /** Pages chosen for extraction when not the whole document */
+  pagesSelected?: number;
+  pagesDone?: number;
+  /** Error message per failed page */
+  pageErrors?: Record<number, string>;
+  /** Highest attempt count any request for this file reached */
+  attempts?: number;
+  maxAttempts?: number;
   extractedText?: string;
   error?: string;
   tokensUsed?: number;
+  /** Filled from the batch's field template, if one was chosen */
+  fields?: ExtractedField[];
+  fieldsError?: string;
 };
 
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const DEFAULT_FILE_CONCURRENCY = 2;
+const DEFAULT_PAGE_CONCURRENCY = 2;
+const NO_TEMPLATE = "none";
+
 interface BatchProcessorProps {
-  files: File[];
-  apiKey: string;
+  items: UploadItem[];
   onComplete?: () => void;
+  onFileComplete?: (result: FileResult) => void; // Called for each successful file
 }
 
-export function BatchProcessor({ files, apiKey, onComplete }: BatchProcessorProps) {
+export function BatchProcessor({ items, onComplete, onFileComplete }: BatchProcessorProps) {
+  const { data: session } = useSession();
+  const files = items.map((item) => item.file);
   const [results, setResults] = useState<FileResult[]>(
-    files.map((file) => ({
-      filename: file.name,
-      file,
+    items.map((item) => ({
+      filename: item.file.name,
+      file: item.file,
+      rotations: item.rotations,
       status: "pending" as const,
+      promptType: item.promptType,
     }))
   );
   const [isProcessing, setIsProcessing] = useState(false);
-  const [currentIndex, setCurrentIndex] = useState(0);
-
-  const processFiles = async () => {
+  const [fileConcurrency, setFileConcurrency] = useState(DEFAULT_FILE_CONCURRENCY);
+  const [pageConcurrency, setPageConcurrency] = useState(DEFAULT_PAGE_CONCURRENCY);
+  const [isRateLimited, setIsRateLimited] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [templates, setTemplates] = useState<FieldTemplate[]>([]);
+  const [templateId, setTemplateId] = useState(NO_TEMPLATE);
+  const poolRef = useRef<WorkerPool | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop in-flight requests if the user leaves mid-batch
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const userId = session?.user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    listTemplates(userId).then(({ templates }) => setTemplates(templates));
+  }, [userId]);
+
+  const template = templates.find((t) => t.id === templateId);
+
+  /**
+   * Process the given files through one shared pool. Files that already have
+   * pages from an earlier run keep them and only their failed pages are re-sent.
+   */
+  const runBatch = async (indices: number[]) => {
     setIsProcessing(true);
+    setIsPaused(false);
     const updatedResults = [...results];
-
-    for (let i = 0; i < files.length; i++) {
-      setCurrentIndex(i);
-      const file = files[i];
+    // One pool for every request so a 429 pauses the whole batch
+    const pool = createWorkerPool(fileConcurrency * pageConcurrency);
+    const controller = new AbortController();
+    const { signal } = controller;
+    poolRef.current = pool;
+    controllerRef.current = controller;
+
+    const updateResult = (i: number, changes: Partial<FileResult>) => {
+      updatedResults[i] = { ...updatedResults[i], ...changes };
+      setResults([...updatedResults]);
+    };
+
+    /**
+     * Run one provider request through the pool with retries; a rate limit
+     * pauses the whole pool rather than just this request
+     */
+    const runWithPool = <T,>(i: number, request: () => Promise<{ data?: T; error?: OCRError }>) =>
+      retryWithBackoff(
+        () =>
+          pool
+            .run(request)
+            // The pool rejects queued tasks once the batch is cancelled
+            .catch(() => ({ error: { type: "cancelled" as const, message: "Request cancelled" } })),
+        {
+          signal,
+          onRetry: ({ attempt, maxAttempts, error, delay }) => {
+            if (error.type === "rate_limit") {
+              pool.pauseFor(delay);
+              setIsRateLimited(true);
+              setTimeout(() => setIsRateLimited(false), delay);
+            }
+            updateResult(i, {
+              attempts: Math.max(updatedResults[i].attempts ?? 1, attempt),
+              maxAttempts,
+            });
+          },
+        }
+      );
+
+    // Images already read with the same prompt and model are answered from the cache
+    const model = userId ? await getActiveModel(userId) : null;
+
+    const extractWithPool = (
+      i: number,
+      imageBase64: string,
+      mimeType: string,
+      promptType: OCRPromptType,
+      hash: string
+    ) =>
+      withResultCache(userId && model ? getCacheKey(userId, hash, promptType, model) : null, () =>
+        runWithPool(i, () => extractText(imageBase64, mimeType, promptType, signal))
+      );
+
+    await mapWithConcurrency(indices, fileConcurrency, async (i) => {
+      // Files that never started stay pending after a cancel
+      if (signal.aborted) return;
+
+      const item = items[i];
+      const file = item.file;
+      const keptPages = updatedResults[i].pages ?? [];
+      const retryPages = updatedResults[i].pageErrors
+        ? Object.keys(updatedResults[i].pageErrors!).map(Number)
+        : null;
 
       // Update status to processing
-      updatedResults[i] = { ...updatedResults[i], status: "processing" };
-      setResults([...updatedResults]);
+      updateResult(i, {
+        status: "processing",
+        error: undefined,
+        pagesDone: keptPages.length,
+        attempts: undefined,
+      });
 
       try {
-        let allText = "";
-        let totalTokens = 0;
-
-        if (isPDF(file)) {
-          // Convert PDF to images and process each page
-          const pages = await pdfToImages(file);
-
-          for (let j = 0; j < pages.length; j++) {
-            const page = pages[j];
-            const { data, error } = await extractText(
-              page.imageBase64,
-              apiKey,
-              "image/png"
-            );
-
-            if (error) {
-              throw new Error(`Page ${j + 1}: ${error.message}`);
-            } else if (data) {
-              if (pages.length > 1 && j > 0) {
-                allText += `\n\n---\n\n## Page ${j + 1}\n\n`;
-              } else if (pages.length > 1) {
-                allText += `## Page 1\n\n`;
+        let pageCount = 1;
+        let pagesToExtract = 1;
+        const pageResults = [...keptPages];
+        const pageErrors: Record<number, string> = {};
+
+        if (hasPages(file)) {
+          // Render each outstanding page just before it is sent, so at most
+          // pageConcurrency page images per file are held in memory
+          const pdf = await openPages(file, { signal });
+          pageCount = pdf.numPages;
+          const selectedPages = getSelectedPages(item, pageCount);
+          pagesToExtract = selectedPages.length;
+          updateResult(i, {
+            pageCount,
+            pagesSelected: pagesToExtract < pageCount ? pagesToExtract : undefined,
+          });
+
+          const pending = retryPages ?? selectedPages;
+
+          let pagesDone = keptPages.length;
+          try {
+            await mapWithConcurrency(pending, pageConcurrency, async (pageNumber) => {
+              const promptType = getPagePromptType(item, pageNumber);
+
+              if (signal.aborted) {
+                pageErrors[pageNumber] = "Request cancelled";
+                return;
               }
-              allText += data.text;
-              totalTokens += data.tokensUsed;
-            }
+
+              try {
+                // Born-digital pages are read from their text layer instead of OCR
+                const textLayer =
+                  item.useTextLayer && canUseTextLayer(promptType)
+                    ? await pdf.readText(pageNumber, getTextLayerFormat(promptType))
+                    : null;
+
+                if (textLayer?.kind === "text") {
+                  pageResults.push(createTextLayerResult(textLayer.text, pageNumber, promptType));
+                  updateResult(i, { pagesDone: ++pagesDone });
+                  return;
+                }
+
+                const page = await pdf.renderPage(pageNumber, { rotation: item.rotations[pageNumber] });
+                const { data, error, cached } = await extractWithPool(
+                  i,
+                  page.imageBase64,
+                  page.mimeType,
+                  promptType,
+                  page.hash
+                );
+
+                if (data) {
+                  pageResults.push(createPageResult(data, pageNumber, promptType, cached));
+                } else {
+                  pageErrors[pageNumber] = error?.message ?? "No response";
+                }
+              } catch (error) {
+                pageErrors[pageNumber] = error instanceof Error ? error.message : "Failed to render page";
+              }
+              updateResult(i, { pagesDone: ++pagesDone });
+            });
+          } finally {
+            await pdf.destroy();
           }
+
+          pageResults.sort((a, b) => a.pageNumber - b.pageNumber);
         } else {
           // Regular image processing
-          const base64 = await fileToBase64(file);
-          const { data, error } = await extractText(base64, apiKey, file.type);
+          const image = await prepareImage(file);
+          const { data, error, cached } = await extractWithPool(
+            i,
+            image.base64,
+            image.mimeType,
+            item.promptType,
+            image.hash
+          );
 
           if (error) {
             throw new Error(error.message);
           } else if (data) {
-            allText = data.text;
-            totalTokens = data.tokensUsed;
+            pageResults.push(createPageResult(data, 1, item.promptType, cached));
           }
         }
 
-        updatedResults[i] = {
-          ...updatedResults[i],
-          status: "success",
-          extractedText: allText,
-          tokensUsed: totalTokens,
-        };
-        toast.success(`${file.name}: Text extracted successfully`);
+        const failedPages = Object.keys(pageErrors).map(Number);
+        const status =
+          failedPages.length === 0 ? "success" : pageResults.length > 0 ? "partial" : "error";
+        const extractedText = combinePageText(pageResults, pageCount > 1);
+
+        // Field failures are reported on the row but don't fail the file
+        const fieldsResult =
+          template && extractedText && !signal.aborted
+            ? await runTemplate(template, extractedText, (markdown, fields) =>
+                runWithPool(i, () => extractFields(markdown, fields, signal))
+              )
+            : null;
+
+        updateResult(i, {
+          status,
+          error: !failedPages.length
+            ? undefined
+            : signal.aborted
+              ? "Cancelled"
+              : failedPages.map((n) => `Page ${n}: ${pageErrors[n]}`).join("; "),
+          pageErrors: failedPages.length ? pageErrors : undefined,
+          extractedText,
+          fields: fieldsResult?.data,
+          fieldsError: fieldsResult?.error?.message,
+          tokensUsed: sumTokens(pageResults),
+          pagePromptTypes: getMixedPromptTypes(pageResults, item.promptType),
+          pages: pageResults,
+          pageCount,
+          pagesDone: pagesToExtract,
+        });
+
+        if (status === "success") {
+          onFileComplete?.(updatedResults[i]);
+          toast.success(`${file.name}: Text extracted successfully`);
+        } else if (signal.aborted) {
+          // Cancelled - no per-file toast
+        } else if (status === "partial") {
+          toast.warning(`${file.name}: ${failedPages.length} of ${pagesToExtract} pages failed`);
+        } else {
+          toast.error(`${file.name}: Processing failed`);
+        }
       } catch (error) {
-        updatedResults[i] = {
-          ...updatedResults[i],
+        if (signal.aborted) {
+          updateResult(i, { status: "error", error: "Cancelled" });
+          return;
+        }
+
+        updateResult(i, {
           status: "error",
           error: error instanceof Error ? error.message : "Unknown error",
-        };
+        });
         toast.error(`${file.name}: Processing failed`);
       }
+    });
 
-      setResults([...updatedResults]);
+    poolRef.current = null;
+    controllerRef.current = null;
+    setIsPaused(false);
+    setIsProcessing(false);
+    return { updatedResults, cancelled: signal.aborted };
+  };
 
-      // Small delay between requests to avoid rate limiting
-      if (i < files.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
-      }
-    }
+  const processFiles = async () => {
+    const pendingIndices = results
+      .map((r, i) => (r.status === "pending" ? i : -1))
+      .filter((i) => i !== -1);
+    const { updatedResults: finalResults, cancelled } = await runBatch(pendingIndices);
 
-    setIsProcessing(false);
-    setCurrentIndex(files.length);
+    if (cancelled) {
+      toast.info("Processing cancelled");
+      return;
+    }
 
     // Check if all succeeded
-    const successCount = updatedResults.filter((r) => r.status === "success").length;
+    const successCount = finalResults.filter((r) => r.status === "success").length;
     if (successCount === files.length) {
       toast.success(`All ${files.length} files processed successfully!`);
     } else {
-      toast.info(`Completed: ${successCount} succeeded, ${files.length - successCount} failed`);
+      toast.info(`Completed: ${successCount} succeeded, ${files.length - successCount} incomplete`);
     }
   };
 
-  const handleDownloadZip = async () => {
-    const successfulResults = results.filter((r) => r.status === "success");
+  const handleDownloadZip = async (format: ExportFormat) => {
+    const successfulResults = results.filter(
+      (r) => r.status === "success" || r.status === "partial"
+    );
 
     if (successfulResults.length === 0) {
       toast.error("No successful extractions to download");
@@ -138,11 +404,20 @@ export function BatchProcessor({ files, apiKey, onComplete }: BatchProcessorProp
     try {
       const zip = new JSZip();
 
-      successfulResults.forEach((result) => {
-        // Convert filename: "document.pdf" → "document.txt"
-        const txtFilename = result.filename.replace(/\.[^.]+$/, ".txt");
-        zip.file(txtFilename, result.extractedText || "");
-      });
+      for (const result of successfulResults) {
+        const blob = await exportDocument(
+          {
+            fileName: result.filename,
+            promptType: result.promptType,
+            pages: result.pages ?? [],
+            pageCount: result.pageCount,
+            file: result.file,
+            rotations: result.rotations,
+          },
+          format
+        );
+        zip.file(getExportFileName(result.filename, format), blob);
+      }
 
       const blob = await zip.generateAsync({ type: "blob" });
       const timestamp = new Date().toISOString().split("T")[0];
@@ -155,6 +430,56 @@ export function BatchProcessor({ files, apiKey, onComplete }: BatchProcessorProp
     }
   };
 
+  /**
+   * Bundle every table from every finished file into one workbook,
+   * one sheet per table
+   */
+  const handleDownloadTables = async () => {
+    const sheets = results
+      .filter((r) => r.status === "success" || r.status === "partial")
+      .flatMap((result) => {
+        const baseName = result.filename.replace(/\.[^.]+$/, "");
+        return extractTables(result.pages ?? []).map((table) => ({
+          name: `${baseName} p${table.pageNumber} t${table.index}`,
+          rows: tableToRows(table),
+        }));
+      });
+
+    if (sheets.length === 0) {
+      toast.info("No tables found in the extracted text");
+      return;
+    }
+
+    try {
+      const workbook = await createWorkbook(sheets);
+      const timestamp = new Date().toISOString().split("T")[0];
+      saveAs(workbook, `ocr-tables-${timestamp}.xlsx`);
+
+      toast.success(`Downloaded ${sheets.length} tables as a workbook`);
+    } catch (error) {
+      toast.error("Failed to generate workbook");
+      console.error("Workbook generation error:", error);
+    }
+  };
+
+  const handleDownloadFields = () => {
+    if (!template) return;
+
+    const withFields = results.filter((r) => r.fields);
+    if (withFields.length === 0) {
+      toast.info("No fields have been extracted yet");
+      return;
+    }
+
+    const rows = fieldsToRows(
+      template.fields,
+      withFields.map((r) => ({ fileName: r.filename, fields: r.fields }))
+    );
+    const timestamp = new Date().toISOString().split("T")[0];
+    saveAs(rowsToCSVBlob(rows), `ocr-fields-${timestamp}.csv`);
+    toast.success(`Downloaded fields for ${withFields.length} files`);
+  };
+
   const copyToClipboard = async (text: string, filename: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -166,7 +491,7 @@ export function BatchProcessor({ files, apiKey, onComplete }: BatchProcessorProp
 
   const retryFailed = async () => {
     const failedIndices = results
-      .map((r, i) => (r.status === "error" ? i : -1))
+      .map((r, i) => (r.status === "error" || r.status === "partial" ? i : -1))
       .filter((i) => i !== -1);
 
     if (failedIndices.length === 0) {
@@ -174,52 +499,52 @@ export function BatchProcessor({ files, apiKey, onComplete }: BatchProcessorProp
       return;
     }
 
-    setIsProcessing(true);
-    const updatedResults = [...results];
+    const { cancelled } = await runBatch(failedIndices);
+    if (cancelled) {
+      toast.info("Retry cancelled");
+    } else {
+      toast.success("Retry completed");
+    }
+  };
 
-    for (const i of failedIndices) {
-      setCurrentIndex(i);
-      const file = files[i];
+  const togglePause = () => {
+    const pool = poolRef.current;
+    if (!pool) return;
 
-      updatedResults[i] = { ...updatedResults[i], status: "processing", error: undefined };
-      setResults([...updatedResults]);
-
-      try {
-        const base64 = await fileToBase64(file);
-        const { data, error } = await extractText(base64, apiKey, file.type);
-
-        if (error) {
-          updatedResults[i] = { ...updatedResults[i], status: "error", error: error.message };
-        } else if (data) {
-          updatedResults[i] = {
-            ...updatedResults[i],
-            status: "success",
-            extractedText: data.text,
-            tokensUsed: data.tokensUsed,
-          };
-        }
-      } catch (error) {
-        updatedResults[i] = {
-          ...updatedResults[i],
-          status: "error",
-          error: error instanceof Error ? error.message : "Unknown error",
-        };
-      }
-
-      setResults([...updatedResults]);
-      await new Promise((resolve) => setTimeout(resolve, 500));
+    if (pool.paused) {
+      pool.resume();
+    } else {
+      pool.pause();
     }
+    setIsPaused(pool.paused);
+  };
 
-    setIsProcessing(false);
-    toast.success("Retry completed");
+  const cancelProcessing = () => {
+    controllerRef.current?.abort();
+    poolRef.current?.cancel();
   };
 
-  const progressPercentage = ((currentIndex + 1) / files.length) * 100;
+  // Pages whose count isn't known yet (PDF still rendering) count as one
+  const getPagesToExtract = (r: FileResult) => r.pagesSelected ?? r.pageCount ?? 1;
+  const totalPages = results.reduce((sum, r) => sum + getPagesToExtract(r), 0);
+  const donePages = results.reduce(
+    (sum, r) =>
+      sum + (r.status === "pending" ? 0 : r.status === "processing" ? r.pagesDone ?? 0 : getPagesToExtract(r)),
+    0
+  );
+  const progressPercentage = totalPages > 0 ? (donePages / totalPages) * 100 : 0;
+  const activeFiles = results.filter((r) => r.status === "processing");
   const successCount = results.filter((r) => r.status === "success").length;
+  const partialCount = results.filter((r) => r.status === "partial").length;
   const errorCount = results.filter((r) => r.status === "error").length;
-  const allComplete = results.every((r) => r.status === "success" || r.status === "error");
+  const pendingCount = results.filter((r) => r.status === "pending").length;
+  const allComplete = results.every(
+    (r) => r.status === "success" || r.status === "partial" || r.status === "error"
+  );
+
+  const getStatusBadge = ({ status, attempts, maxAttempts }: FileResult) => {
+    const retried = attempts && attempts > 1;
 
-  const getStatusBadge = (status: FileResult["status"]) => {
     switch (status) {
       case "pending":
         return <Badge variant="secondary">Pending</Badge>;
@@ -227,21 +552,28 @@ export function BatchProcessor({ files, apiKey, onComplete }: BatchProcessorProp
         return (
           <Badge variant="secondary" className="gap-1">
             <Loader2 className="h-3 w-3 animate-spin" />
-            Processing
+            {retried ? `Attempt ${attempts}/${maxAttempts}` : "Processing"}
           </Badge>
         );
       case "success":
         return (
           <Badge variant="secondary" className="gap-1 bg-green-500/10 text-green-600 dark:text-green-400">
             <CheckCircle2 className="h-3 w-3" />
-            Done
+            {retried ? `Done after ${attempts} attempts` : "Done"}
+          </Badge>
+        );
+      case "partial":
+        return (
+          <Badge variant="secondary" className="gap-1 bg-yellow-500/10 text-yellow-600 dark:text-yellow-400">
+            <AlertTriangle className="h-3 w-3" />
+            Partial
           </Badge>
         );
       case "error":
         return (
           <Badge variant="secondary" className="gap-1 bg-red-500/10 text-red-600 dark:text-red-400">
             <XCircle className="h-3 w-3" />
-            Error
+            {retried ? `Failed after ${attempts} attempts` : "Error"}
           </Badge>
         );
     }
@@ -257,22 +589,106 @@ export function BatchProcessor({ files, apiKey, onComplete }: BatchProcessorProp
             {files.length} file{files.length > 1 ? "s" : ""} queued
           </p>
         </div>
-        <div className="flex flex-wrap gap-2">
+        <div className="flex flex-wrap items-center gap-2">
           {!isProcessing && !allComplete && (
+            <>
+              <Select
+                value={String(fileConcurrency)}
+                onValueChange={(value) => setFileConcurrency(Number(value))}
+              >
+                <SelectTrigger size="sm" aria-label="Files at once">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONCURRENCY_OPTIONS.map((n) => (
+                    <SelectItem key={n} value={String(n)}>
+                      {n} file{n > 1 ? "s" : ""} at once
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={String(pageConcurrency)}
+                onValueChange={(value) => setPageConcurrency(Number(value))}
+              >
+                <SelectTrigger size="sm" aria-label="Pages at once per file">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONCURRENCY_OPTIONS.map((n) => (
+                    <SelectItem key={n} value={String(n)}>
+                      {n} page{n > 1 ? "s" : ""} per file
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {templates.length > 0 && (
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger size="sm" aria-label="Field template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TEMPLATE}>No field template</SelectItem>
+                    {templates.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name} fields
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </>
+          )}
+          {!isProcessing && pendingCount > 0 && (
             <Button onClick={processFiles} className="gap-2">
               <FileText className="h-4 w-4" />
-              Start Processing
+              {pendingCount < results.length ? `Process Remaining (${pendingCount})` : "Start Processing"}
             </Button>
           )}
-          {allComplete && successCount > 0 && (
-            <Button onClick={handleDownloadZip} className="gap-2">
-              <Download className="h-4 w-4" />
-              Download All ({successCount})
-            </Button>
+          {isProcessing && (
+            <>
+              <Button variant="outline" onClick={togglePause} className="gap-2">
+                {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                {isPaused ? "Resume" : "Pause"}
+              </Button>
+              <Button variant="outline" onClick={cancelProcessing} className="gap-2">
+                <Square className="h-4 w-4" />
+                Cancel
+              </Button>
+            </>
+          )}
+          {!isProcessing && successCount + partialCount > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button className="gap-2">
+                  <Download className="h-4 w-4" />
+                  Download All ({successCount + partialCount})
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-48">
+                {EXPORT_FORMATS.map((format) => (
+                  <DropdownMenuItem
+                    key={format.value}
+                    onSelect={() => handleDownloadZip(format.value)}
+                  >
+                    {format.label} (.{format.extension})
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={handleDownloadTables}>
+                  All tables (.xlsx)
+                </DropdownMenuItem>
+                {template && (
+                  <DropdownMenuItem onSelect={handleDownloadFields}>
+                    {template.name} fields (.csv)
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
           )}
-          {allComplete && errorCount > 0 && (
+          {!isProcessing && errorCount + partialCount > 0 && (
             <Button variant="outline" onClick={retryFailed} className="gap-2">
-              Retry Failed ({errorCount})
+              Retry Failed ({errorCount + partialCount})
             </Button>
           )}
         </div>
@@ -285,13 +701,23 @@ export function BatchProcessor({ files, apiKey, onComplete }: BatchProcessorProp
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
                 <span>
-                  Processing {currentIndex + 1} of {files.length}...
+                  {donePages} of {totalPages} page{totalPages > 1 ? "s" : ""} processed...
                 </span>
                 <span className="text-muted-foreground">{Math.round(progressPercentage)}%</span>
               </div>
               <Progress value={progressPercentage} />
-              <p className="text-xs text-muted-foreground">
-                {results[currentIndex]?.filename}
+              {isPaused && (
+                <p className="text-xs text-muted-foreground">
+                  Paused. Requests already in flight will finish.
+                </p>
+              )}
+              {isRateLimited && (
+                <p className="text-xs text-yellow-600 dark:text-yellow-400">
+                  Rate limited by the provider, pausing requests...
+                </p>
+              )}
+              <p className="truncate text-xs text-muted-foreground">
+                {activeFiles.map((r) => r.filename).join(", ")}
               </p>
             </div>
           </CardContent>
@@ -317,14 +743,49 @@ export function BatchProcessor({ files, apiKey, onComplete }: BatchProcessorProp
                     {result.error && (
                       <p className="text-xs text-red-600 dark:text-red-400">{result.error}</p>
                     )}
-                    {result.tokensUsed && (
+                    {result.status === "partial" && result.pageCount && (
+                      <p className="text-xs text-muted-foreground">
+                        {result.pages?.length ?? 0} of {getPagesToExtract(result)} pages extracted
+                      </p>
+                    )}
+                    {result.status === "processing" && result.pageCount && result.pageCount > 1 && (
+                      <p className="text-xs text-muted-foreground">
+                        {result.pagesDone ?? 0}/{getPagesToExtract(result)} pages
+                      </p>
+                    )}
+                    {!!result.tokensUsed && (
                       <p className="text-xs text-muted-foreground">
                         {result.tokensUsed.toLocaleString()} tokens
                       </p>
                     )}
+                    {result.pages?.some((page) => page.source === "text-layer") && (
+                      <p className="text-xs text-muted-foreground">
+                        Embedded text, no OCR: pages {formatPageList(getTextLayerPages(result.pages))}
+                      </p>
+                    )}
+                    {result.pages?.some((page) => page.cached) && (
+                      <p className="text-xs text-muted-foreground">
+                        Cached, no tokens spent: pages {formatPageList(getCachedPages(result.pages))}
+                      </p>
+                    )}
+                    {result.fields && (
+                      <p className="text-xs text-muted-foreground">
+                        {result.fields.filter((field) => field.value !== null).length}/
+                        {result.fields.length} fields found
+                      </p>
+                    )}
+                    {result.fieldsError && (
+                      <p className="text-xs text-yellow-600 dark:text-yellow-400">
+                        Fields: {result.fieldsError}
+                      </p>
+                    )}
                   </div>
-                  {getStatusBadge(result.status)}
-                  {result.status === "success" && result.extractedText && (
+                  <Badge variant="outline" className="shrink-0">
+                    {result.pagePromptTypes ? "Mixed" : getPromptLabel(result.promptType)}
+                  </Badge>
+                  {getStatusBadge(result)}
+                  {(result.status === "success" || result.status === "partial") &&
+                    result.extractedText && (
                     <Button
                       variant="ghost"
                       size="icon-sm"
@@ -349,6 +810,14 @@ export function BatchProcessor({ files, apiKey, onComplete }: BatchProcessorProp
               {successCount} succeeded
             </span>
           </div>
+          {partialCount > 0 && (
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
+              <span>
+                {partialCount} partially extracted
+              </span>
+            </div>
+          )}
           {errorCount > 0 && (
             <div className="flex items-center gap-2">
               <XCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
@@ -1,21 +1,35 @@
 'use client'
 
-import { useRef } from 'react'
+import { useCallback, useRef, useState } from 'react'
 import { Camera } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { CameraScanner } from '@/components/camera-scanner'
 
 interface CameraCaptureProps {
   onCapture: (file: File) => void
+  /** Receives a multi-page scan as one PDF; without it only single photos are taken */
+  onScan?: (file: File) => void
   disabled?: boolean
 }
 
-export function CameraCapture({ onCapture, disabled }: CameraCaptureProps) {
+export function CameraCapture({ onCapture, onScan, disabled }: CameraCaptureProps) {
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isScannerOpen, setIsScannerOpen] = useState(false)
 
   const handleButtonClick = () => {
-    fileInputRef.current?.click()
+    // The live scanner needs camera access; otherwise fall back to the OS camera
+    if (onScan && typeof navigator.mediaDevices?.getUserMedia === 'function') {
+      setIsScannerOpen(true)
+    } else {
+      fileInputRef.current?.click()
+    }
   }
 
+  const handleScannerError = useCallback(() => {
+    setIsScannerOpen(false)
+    fileInputRef.current?.click()
+  }, [])
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
@@ -33,10 +47,10 @@ export function CameraCapture({ onCapture, disabled }: CameraCaptureProps) {
         className="flex items-center gap-2"
         onClick={handleButtonClick}
         disabled={disabled}
-        aria-label="Capture photo with camera"
+        aria-label={onScan ? 'Scan with camera' : 'Capture photo with camera'}
       >
         <Camera className="h-5 w-5" />
-        <span className="hidden sm:inline">Take Photo</span>
+        <span className="hidden sm:inline">{onScan ? 'Scan Pages' : 'Take Photo'}</span>
         <span className="sm:hidden">Camera</span>
       </Button>
 
@@ -49,6 +63,15 @@ export function CameraCapture({ onCapture, disabled }: CameraCaptureProps) {
         className="hidden"
         aria-hidden="true"
       />
+
+      {onScan && (
+        <CameraScanner
+          isOpen={isScannerOpen}
+          onClose={() => setIsScannerOpen(false)}
+          onComplete={onScan}
+          onError={handleScannerError}
+        />
+      )}
     </>
   )
 }
@@ -0,0 +1,319 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { Camera, Check, Loader2, Trash2, X, Zap } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  captureFrame,
+  createScannedPDF,
+  detectDocument,
+  getCornerMovement,
+  hasMoved,
+  isSteady,
+} from "@/lib/document-scanner";
+import type { Quad } from "@/lib/image-preprocess";
+
+// How often the viewfinder is checked for a page
+const DETECT_INTERVAL_MS = 250;
+// Consecutive steady detections before an automatic capture (~1.5s)
+const STEADY_FRAMES = 6;
+
+interface ScannedPage {
+  id: string;
+  file: File;
+  url: string;
+}
+
+interface Detection {
+  width: number;
+  height: number;
+  corners: Quad | null;
+  steady: number;
+}
+
+interface CameraScannerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the session's pages as one PDF */
+  onComplete: (file: File) => void;
+  /** Camera unavailable or permission denied */
+  onError: () => void;
+}
+
+/**
+ * Viewfinder for scanning several pages into one document
+ * Pages are captured automatically once the detected page holds still, or with
+ * the shutter button. The session survives closing the dialog until it is
+ * finished or discarded.
+ */
+export function CameraScanner({ isOpen, onClose, onComplete, onError }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const capturingRef = useRef(false);
+  const [pages, setPages] = useState<ScannedPage[]>([]);
+  const [detection, setDetection] = useState<Detection | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const pagesRef = useRef(pages);
+
+  useEffect(() => {
+    pagesRef.current = pages;
+  }, [pages]);
+
+  // Revoke page thumbnails when the scanner goes away
+  useEffect(() => () => pagesRef.current.forEach((page) => URL.revokeObjectURL(page.url)), []);
+
+  const capture = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || capturingRef.current || !video.videoWidth) return;
+
+    capturingRef.current = true;
+    setIsCapturing(true);
+
+    try {
+      const file = await captureFrame(video, pagesRef.current.length + 1);
+      setPages((prev) => [...prev, { id: crypto.randomUUID(), file, url: URL.createObjectURL(file) }]);
+    } catch (error) {
+      console.error("Error capturing page:", error);
+      toast.error("Failed to capture page");
+    } finally {
+      capturingRef.current = false;
+      setIsCapturing(false);
+    }
+  }, []);
+
+  // Start the rear camera while the dialog is open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: { facingMode: "environment", width: { ideal: 3840 }, height: { ideal: 2160 } },
+        audio: false,
+      })
+      .then(async (media) => {
+        if (cancelled) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = media;
+          await video.play();
+          setIsStreaming(true);
+        }
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error starting camera:", error);
+        toast.error(
+          error.name === "NotAllowedError"
+            ? "Camera access was denied. Choose a photo instead."
+            : "Could not start the camera. Choose a photo instead."
+        );
+        onError();
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+      setIsStreaming(false);
+      setDetection(null);
+    };
+  }, [isOpen, onError]);
+
+  // Watch for a page and capture it once it has been still for a moment.
+  // After a capture the next one waits until the page moves or is swapped.
+  useEffect(() => {
+    if (!isStreaming) return;
+
+    const canvas = document.createElement("canvas");
+    let previous: Quad | null = null;
+    let steady = 0;
+    let armed = true;
+
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video?.videoWidth || capturingRef.current) return;
+
+      const { width, height, corners } = detectDocument(video, canvas);
+      const movement = previous && corners ? getCornerMovement(previous, corners, width, height) : 1;
+
+      if (!corners || hasMoved(movement)) {
+        armed = true;
+      }
+      steady = corners && isSteady(movement) ? steady + 1 : 0;
+      previous = corners;
+
+      setDetection({ width, height, corners, steady });
+
+      if (autoCapture && armed && steady >= STEADY_FRAMES) {
+        armed = false;
+        steady = 0;
+        void capture();
+      }
+    }, DETECT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      canvas.width = 0;
+    };
+  }, [isStreaming, autoCapture, capture]);
+
+  const removePage = (id: string) => {
+    setPages((prev) => {
+      const page = prev.find((p) => p.id === id);
+      if (page) URL.revokeObjectURL(page.url);
+      return prev.filter((p) => p.id !== id);
+    });
+  };
+
+  const discard = () => {
+    pages.forEach((page) => URL.revokeObjectURL(page.url));
+    setPages([]);
+  };
+
+  const finish = async () => {
+    setIsSaving(true);
+    try {
+      const file = await createScannedPDF(pages.map((page) => page.file));
+      onComplete(file);
+      discard();
+      onClose();
+    } catch (error) {
+      console.error("Error creating scanned document:", error);
+      toast.error("Failed to create the scanned document");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const corners = detection?.corners;
+  const isLocked = !!corners && (detection?.steady ?? 0) >= STEADY_FRAMES / 2;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[95vh] max-w-4xl overflow-y-auto sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Scan Document</DialogTitle>
+        </DialogHeader>
+
+        <div className="relative flex aspect-[3/4] w-full items-center justify-center overflow-hidden rounded-md bg-black sm:aspect-video">
+          <video ref={videoRef} className="h-full w-full object-contain" muted playsInline />
+          {detection && corners && (
+            <svg
+              className="pointer-events-none absolute inset-0 h-full w-full"
+              viewBox={`0 0 ${detection.width} ${detection.height}`}
+              preserveAspectRatio="xMidYMid meet"
+            >
+              <polygon
+                points={corners.map((point) => `${point.x},${point.y}`).join(" ")}
+                className={isLocked ? "fill-primary/20 stroke-primary" : "fill-transparent stroke-white"}
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+          )}
+          {!isStreaming && <Loader2 className="absolute h-6 w-6 animate-spin text-white" />}
+          {isCapturing && (
+            <div className="absolute inset-0 flex items-center justify-center bg-white/40">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {autoCapture
+            ? "Hold the page steady inside the frame; it is captured automatically. Turn the page to scan the next one."
+            : "Press the shutter to capture each page."}
+        </p>
+
+        {pages.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {pages.map((page, index) => (
+              <div key={page.id} className="relative shrink-0">
+                {/* Captures are object URLs, so skip the optimizer; CSS sets the size */}
+                <Image
+                  src={page.url}
+                  alt={`Page ${index + 1}`}
+                  width={0}
+                  height={0}
+                  unoptimized
+                  className="h-20 w-auto rounded border object-contain"
+                />
+                <span className="pointer-events-none absolute bottom-1 left-1 rounded bg-background/80 px-1 text-[10px]">
+                  {index + 1}
+                </span>
+                <Button
+                  variant="secondary"
+                  size="icon-xs"
+                  onClick={() => removePage(page.id)}
+                  aria-label={`Remove page ${index + 1}`}
+                  className="absolute right-1 top-1"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="flex-col gap-2 sm:flex-row sm:justify-between">
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant={autoCapture ? "secondary" : "outline"}
+              onClick={() => setAutoCapture((prev) => !prev)}
+              aria-pressed={autoCapture}
+              className="flex items-center gap-2"
+            >
+              <Zap className="h-4 w-4" />
+              Auto
+            </Button>
+            {pages.length > 0 && (
+              <Button type="button" variant="outline" onClick={discard} className="flex items-center gap-2">
+                <Trash2 className="h-4 w-4" />
+                Discard
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={capture}
+              disabled={!isStreaming || isCapturing}
+              className="flex items-center gap-2"
+            >
+              <Camera className="h-4 w-4" />
+              Capture
+            </Button>
+            <Button
+              type="button"
+              onClick={finish}
+              disabled={pages.length === 0 || isCapturing || isSaving}
+              className="flex items-center gap-2"
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+              Done{pages.length > 0 && ` (${pages.length} page${pages.length === 1 ? "" : "s"})`}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,8 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { Check, RotateCcw } from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import { Check, Contrast, Crop, Loader2, RotateCcw, RotateCw, ScanLine, Sparkles } from 'lucide-react'
+import { toast } from 'sonner'
 import {
   Dialog,
   DialogContent,
@@ -10,15 +11,45 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  COLOR_MODE_OPTIONS,
+  DEFAULT_PREPROCESS_OPTIONS,
+  preprocessImage,
+  type ColorMode,
+  type PreprocessOptions,
+  type PreprocessResult,
+} from '@/lib/image-preprocess'
 
 interface CapturePreviewModalProps {
   file: File | null
   isOpen: boolean
   onRetake: () => void
-  onConfirm: () => void
+  onConfirm: (file: File) => void
   onClose: () => void
 }
 
+type ToggleOption = 'crop' | 'deskew' | 'contrast' | 'denoise'
+
+const TOGGLES: { key: ToggleOption; label: string; icon: typeof Crop }[] = [
+  { key: 'crop', label: 'Auto crop', icon: Crop },
+  { key: 'deskew', label: 'Straighten', icon: ScanLine },
+  { key: 'contrast', label: 'Contrast', icon: Contrast },
+  { key: 'denoise', label: 'Denoise', icon: Sparkles },
+]
+
+interface Enhanced extends Partial<PreprocessResult> {
+  source: File
+  options: PreprocessOptions
+  url?: string
+}
+
 export function CapturePreviewModal({
   file,
   isOpen,
@@ -27,6 +58,16 @@ export function CapturePreviewModal({
   onClose,
 }: CapturePreviewModalProps) {
   const [previewUrl, setPreviewUrl] = useState<string>('')
+  const [settings, setSettings] = useState<Omit<PreprocessOptions, 'rotation'>>(DEFAULT_PREPROCESS_OPTIONS)
+  // Rotation belongs to one photo; a new capture starts upright
+  const [rotation, setRotation] = useState<{ file: File | null; degrees: number }>({ file: null, degrees: 0 })
+  const [enhanced, setEnhanced] = useState<Enhanced | null>(null)
+  const [showOriginal, setShowOriginal] = useState(false)
+
+  const degrees = rotation.file === file ? rotation.degrees : 0
+  const options = useMemo(() => ({ ...settings, rotation: degrees }), [settings, degrees])
+  const isCurrent = enhanced?.source === file && enhanced.options === options
+  const isProcessing = !!file && !isCurrent
 
   useEffect(() => {
     if (file) {
@@ -42,9 +83,60 @@ export function CapturePreviewModal({
     }
   }, [file])
 
+  // Re-run the pipeline whenever the photo or an option changes
+  useEffect(() => {
+    if (!file) return
+
+    let cancelled = false
+    let url: string | undefined
+
+    preprocessImage(file, options)
+      .then((result) => {
+        if (cancelled) return
+        url = URL.createObjectURL(result.file)
+        setEnhanced({ ...result, source: file, options, url })
+      })
+      .catch((error) => {
+        if (cancelled) return
+        console.error('Error enhancing photo:', error)
+        toast.error('Could not enhance this photo; the original will be used')
+        setEnhanced({ source: file, options })
+      })
+
+    return () => {
+      cancelled = true
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [file, options])
+
+  const toggle = (key: ToggleOption) => {
+    setSettings((prev) => ({ ...prev, [key]: !prev[key] }))
+  }
+
+  const rotate = () => {
+    setRotation({ file, degrees: (degrees + 90) % 360 })
+  }
+
+  const handleConfirm = () => {
+    if (!file) return
+    onConfirm((isCurrent && enhanced?.file) || file)
+  }
+
+  const shownUrl = !showOriginal && isCurrent && enhanced?.url ? enhanced.url : previewUrl
+  const status = isProcessing
+    ? 'Enhancing...'
+    : enhanced?.file
+      ? [
+          enhanced.cropped ? 'Cropped to document edges' : settings.crop && 'No document edges found',
+          enhanced.skewAngle ? `Straightened by ${Math.abs(enhanced.skewAngle)}°` : null,
+        ]
+          .filter(Boolean)
+          .join(' • ')
+      : null
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
-      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden">
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Review Photo</DialogTitle>
         </DialogHeader>
@@ -52,13 +144,82 @@ export function CapturePreviewModal({
         {previewUrl && (
           <div className="relative w-full flex items-center justify-center bg-muted/50 rounded-md overflow-hidden">
             <img
-              src={previewUrl}
-              alt="Captured photo preview"
-              className="max-h-[60vh] w-auto object-contain"
+              src={shownUrl}
+              alt={showOriginal ? 'Captured photo' : 'Enhanced photo preview'}
+              className="max-h-[50vh] w-auto object-contain"
             />
+            {isProcessing && !showOriginal && (
+              <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            )}
           </div>
         )}
 
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-md border p-0.5" role="group" aria-label="Compare">
+            <Button
+              type="button"
+              variant={showOriginal ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setShowOriginal(true)}
+              aria-pressed={showOriginal}
+            >
+              Before
+            </Button>
+            <Button
+              type="button"
+              variant={showOriginal ? 'ghost' : 'secondary'}
+              size="sm"
+              onClick={() => setShowOriginal(false)}
+              aria-pressed={!showOriginal}
+            >
+              After
+            </Button>
+          </div>
+          {TOGGLES.map(({ key, label, icon: Icon }) => (
+            <Button
+              key={key}
+              type="button"
+              variant={settings[key] ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => toggle(key)}
+              aria-pressed={settings[key]}
+              className="flex items-center gap-1"
+            >
+              <Icon className="h-4 w-4" />
+              {label}
+            </Button>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={rotate}
+            className="flex items-center gap-1"
+          >
+            <RotateCw className="h-4 w-4" />
+            Rotate
+          </Button>
+          <Select
+            value={settings.colorMode}
+            onValueChange={(colorMode) => setSettings((prev) => ({ ...prev, colorMode: colorMode as ColorMode }))}
+          >
+            <SelectTrigger size="sm" aria-label="Color mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COLOR_MODE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {status && <p className="text-xs text-muted-foreground">{status}</p>}
+
         <DialogFooter className="flex-col sm:flex-row gap-2">
           <Button
             type="button"
@@ -71,7 +232,8 @@ export function CapturePreviewModal({
           </Button>
           <Button
             type="button"
-            onClick={onConfirm}
+            onClick={handleConfirm}
+            disabled={isProcessing}
             className="flex items-center gap-2"
           >
             <Check className="h-4 w-4" />
@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Loader2, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import { saveAs } from "file-saver";
+import { useSession } from "@/lib/auth-client";
+import { retryWithBackoff, extractFields } from "@/lib/deepseek-client";
+import { fieldsToRows, formatConfidence, runTemplate } from "@/lib/field-extraction";
+import type { ExtractedField, FieldTemplate } from "@/lib/field-templates";
+import { listTemplates } from "@/lib/template-service";
+import { rowsToCSVBlob } from "@/lib/tables";
+
+interface FieldExtractorProps {
+  fileName: string;
+  text: string;
+}
+
+/**
+ * Badge style for a confidence score
+ */
+function getConfidenceVariant(confidence: number): "secondary" | "outline" | "destructive" {
+  if (confidence >= 0.8) return "secondary";
+  if (confidence >= 0.5) return "outline";
+  return "destructive";
+}
+
+/**
+ * Fill one of the user's field templates from a result's text
+ */
+export function FieldExtractor({ fileName, text }: FieldExtractorProps) {
+  const { data: session } = useSession();
+  const [templates, setTemplates] = useState<FieldTemplate[] | null>(null);
+  const [templateId, setTemplateId] = useState<string>("");
+  const [isExtracting, setIsExtracting] = useState(false);
+  // Remember which text and template the fields came from so edits show as stale
+  const [result, setResult] = useState<{
+    text: string;
+    template: FieldTemplate;
+    fields: ExtractedField[];
+    tokensUsed: number;
+  } | null>(null);
+
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    listTemplates(userId).then(({ templates, error }) => {
+      if (error) {
+        toast.error("Failed to load templates");
+      }
+      setTemplates(templates);
+      setTemplateId((current) => current || templates[0]?.id || "");
+    });
+  }, [userId]);
+
+  const template = templates?.find((t) => t.id === templateId);
+  const isStale = !!result && (result.text !== text || result.template !== template);
+
+  const handleExtract = async () => {
+    if (!template) return;
+
+    setIsExtracting(true);
+    const { data, tokensUsed, error } = await runTemplate(template, text, (markdown, fields) =>
+      retryWithBackoff(() => extractFields(markdown, fields))
+    );
+    setIsExtracting(false);
+
+    if (error || !data) {
+      toast.error(error?.message || "Failed to extract fields");
+      return;
+    }
+
+    setResult({ text, template, fields: data, tokensUsed });
+    const found = data.filter((field) => field.value !== null).length;
+    toast.success(`Found ${found} of ${data.length} fields`);
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+
+    const rows = fieldsToRows(result.template.fields, [{ fileName, fields: result.fields }]);
+    saveAs(rowsToCSVBlob(rows), `${fileName.replace(/\.[^.]+$/, "")}-fields.csv`);
+  };
+
+  if (templates === null) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (templates.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No field templates yet.{" "}
+        <Link href="/settings" className="text-primary hover:underline">
+          Create one in Settings
+        </Link>{" "}
+        to pull fields like invoice number or total out of your documents.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Select value={templateId} onValueChange={setTemplateId}>
+          <SelectTrigger className="w-full sm:flex-1" aria-label="Field template">
+            <SelectValue placeholder="Choose a template" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+                {option.method === "model" && " (model)"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleExtract} disabled={!template || isExtracting} className="gap-2">
+          {isExtracting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+          {result && !isStale ? "Extract Again" : "Extract Fields"}
+        </Button>
+      </div>
+
+      {result && (
+        <div className={isStale ? "opacity-50" : ""}>
+          <div className="overflow-hidden rounded-lg border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="border-b bg-muted/50 px-3 py-2 text-left font-medium">Field</th>
+                  <th className="border-b bg-muted/50 px-3 py-2 text-left font-medium">Value</th>
+                  <th className="border-b bg-muted/50 px-3 py-2 text-right font-medium">Confidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.fields.map((field) => (
+                  <tr key={field.name}>
+                    <td className="border-b px-3 py-2 font-mono text-xs">{field.name}</td>
+                    <td className="border-b px-3 py-2">
+                      {field.value ?? <span className="text-muted-foreground">Not found</span>}
+                    </td>
+                    <td className="border-b px-3 py-2 text-right">
+                      {field.value !== null && (
+                        <Badge variant={getConfidenceVariant(field.confidence)} title={`From ${field.source}`}>
+                          {formatConfidence(field.confidence)}
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-3 flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              {isStale
+                ? "The text or template changed since these fields were extracted."
+                : result.tokensUsed > 0 && `Model pass used ${result.tokensUsed.toLocaleString()} tokens`}
+            </p>
+            <Button variant="outline" size="sm" onClick={handleDownload} className="gap-2">
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
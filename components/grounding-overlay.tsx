@@ -0,0 +1,62 @@
+"use client";
+
+import Image from "next/image";
+import { cn } from "@/lib/utils";
+import type { GroundingRegion } from "@/lib/grounding";
+
+interface GroundingOverlayProps {
+  image: string;
+  alt: string;
+  regions: GroundingRegion[];
+  activeRegionId?: string | null;
+  onRegionHover?: (region: GroundingRegion | null) => void;
+  onRegionClick?: (region: GroundingRegion) => void;
+}
+
+export function GroundingOverlay({
+  image,
+  alt,
+  regions,
+  activeRegionId,
+  onRegionHover,
+  onRegionClick,
+}: GroundingOverlayProps) {
+  return (
+    <div className="max-h-[600px] overflow-auto rounded-lg border">
+      {/* Boxes are positioned in percentages so they scale with the image */}
+      <div className="relative">
+        {/* Object and data URLs are already local, so skip the optimizer; CSS sets the size */}
+        <Image src={image} alt={alt} width={0} height={0} unoptimized className="block h-auto w-full" />
+        {regions.map((region) => {
+          const isActive = region.id === activeRegionId;
+
+          return (
+            <button
+              key={region.id}
+              type="button"
+              title={`${region.label}${region.text ? `: ${region.text.slice(0, 80)}` : ""}`}
+              aria-label={`Show ${region.label} block`}
+              onMouseEnter={() => onRegionHover?.(region)}
+              onMouseLeave={() => onRegionHover?.(null)}
+              onFocus={() => onRegionHover?.(region)}
+              onBlur={() => onRegionHover?.(null)}
+              onClick={() => onRegionClick?.(region)}
+              className={cn(
+                "absolute rounded-sm border transition-colors",
+                isActive
+                  ? "border-primary bg-primary/25 ring-2 ring-primary"
+                  : "border-primary/50 bg-primary/5 hover:bg-primary/15"
+              )}
+              style={{
+                left: `${region.box.x1 * 100}%`,
+                top: `${region.box.y1 * 100}%`,
+                width: `${(region.box.x2 - region.box.x1) * 100}%`,
+                height: `${(region.box.y2 - region.box.y1) * 100}%`,
+              }}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
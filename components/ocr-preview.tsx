@@ -1,21 +1,114 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
-import Markdown from "react-markdown";
+import Markdown, { type Components } from "react-markdown";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { oneDark } from "react-syntax-highlighter/dist/esm/styles/prism";
-import { Copy, Check, FileText } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Copy,
+  Check,
+  FileText,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Table2,
+  Pencil,
+  GitCompare,
+  Loader2,
+  Undo2,
+  ListChecks,
+} from "lucide-react";
 import { toast } from "sonner";
+import { saveAs } from "file-saver";
+import { GroundingOverlay } from "@/components/grounding-overlay";
+import { FieldExtractor } from "@/components/field-extractor";
+import { getPromptLabel, type OCRPromptType } from "@/lib/deepseek-client";
+import type { GroundingRegion } from "@/lib/grounding";
+import {
+  formatPageList,
+  getCachedPages,
+  getTextLayerPages,
+  splitCombinedText,
+  sumTokens,
+  type PageResult,
+} from "@/lib/ocr-result";
+import { diffLines, getDiffStats } from "@/lib/text-diff";
+import {
+  EXPORT_FORMATS,
+  exportDocument,
+  getExportFileName,
+  type ExportFormat,
+} from "@/lib/export";
+import {
+  extractTables,
+  getTableName,
+  tableToCSVBlob,
+  tableToRows,
+  type ExtractedTable,
+} from "@/lib/tables";
+import { createWorkbook } from "@/lib/xlsx";
+import { cn } from "@/lib/utils";
+
+const markdownComponents: Components = {
+  code({ children, className }) {
+    const match = /language-(\w+)/.exec(className || "");
+    return match ? (
+      <SyntaxHighlighter
+        PreTag="div"
+        language={match[1]}
+        style={oneDark}
+      >
+        {String(children).replace(/\n$/, "")}
+      </SyntaxHighlighter>
+    ) : (
+      <code className="rounded bg-muted px-1 py-0.5 font-mono text-sm">
+        {children}
+      </code>
+    );
+  },
+  table(props) {
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-border">
+          {props.children}
+        </table>
+      </div>
+    );
+  },
+};
 
 interface OCRPreviewProps {
   fileName: string;
   extractedText: string;
   filePreview?: string; // Optional: base64 image or PDF preview
   tokensUsed?: number;
+  promptType?: OCRPromptType;
+  pagePromptTypes?: Record<number, OCRPromptType>; // Only set when pages used different modes
+  regions?: GroundingRegion[]; // Grounding mode: source locations of each block
+  pagePreviews?: Record<number, string>; // Image per page number, used to overlay regions
+  pages?: PageResult[]; // Per-page results for structured exports
+  pageCount?: number;
+  sourceFile?: File; // Original upload, enables searchable PDF export
+  sourceRotations?: Record<number, number>; // Page rotations applied before OCR
+  correctedText?: string | null; // Previously saved user edits
+  /**
+   * Persist edits (null reverts to the original)
+   * @returns false to keep the editor open, e.g. when saving failed
+   */
+  onSaveCorrection?: (correctedText: string | null) => Promise<boolean>;
   onClose?: () => void;
+  closeLabel?: string;
 }
 
 export function OCRPreview({
@@ -23,13 +116,98 @@ export function OCRPreview({
   extractedText,
   filePreview,
   tokensUsed,
+  promptType,
+  pagePromptTypes,
+  regions,
+  pagePreviews,
+  pages,
+  pageCount,
+  sourceFile,
+  sourceRotations,
+  correctedText,
+  onSaveCorrection,
   onClose,
+  closeLabel = "Process Another File",
 }: OCRPreviewProps) {
   const [copied, setCopied] = useState(false);
+  const [view, setView] = useState<"text" | "tables" | "changes" | "fields">("text");
+  const [text, setText] = useState(correctedText ?? extractedText);
+  const [draft, setDraft] = useState<string | null>(null); // Set while editing
+  const [isSaving, setIsSaving] = useState(false);
+  const [activeRegionId, setActiveRegionId] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const blockRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const isCorrected = text !== extractedText;
+  const textLayerPages = getTextLayerPages(pages ?? []);
+  const cachedPages = getCachedPages(pages ?? []);
+  const isEditing = draft !== null;
+  // Grounded blocks show the original output, so corrections switch to plain markdown
+  const isGrounded = !!regions && regions.length > 0 && !isCorrected;
+  const pageImages: Record<number, string> = pagePreviews ?? (filePreview ? { 1: filePreview } : {});
+  const previewPages = Object.keys(pageImages).map(Number).sort((a, b) => a - b);
+  // Pages that weren't extracted have no image; fall back to the first that does
+  const shownPage = pageImages[currentPage] ? currentPage : previewPages[0];
+  const pageIndex = previewPages.indexOf(shownPage);
+  const pageImage = pageImages[shownPage];
+  const showOriginal = (!!filePreview || previewPages.length > 0) && !isEditing;
+
+  // Older callers only have the combined text
+  const originalPages = useMemo<PageResult[]>(
+    () =>
+      pages ?? [
+        {
+          pageNumber: 1,
+          text: extractedText,
+          promptType: promptType ?? "document",
+          tokensUsed: tokensUsed ?? 0,
+        },
+      ],
+    [pages, extractedText, promptType, tokensUsed]
+  );
+  const multiPage = (pageCount ?? originalPages.length) > 1;
+
+  // Map corrections back onto pages; if the page headings were edited away,
+  // treat the corrected text as a single page
+  const correctedPages = useMemo(
+    () => (isCorrected ? splitCombinedText(originalPages, text, multiPage) : originalPages),
+    [isCorrected, originalPages, text, multiPage]
+  );
+  const resultPages = useMemo<PageResult[]>(
+    () =>
+      correctedPages ?? [
+        {
+          pageNumber: 1,
+          text,
+          promptType: promptType ?? "document",
+          tokensUsed: sumTokens(originalPages),
+        },
+      ],
+    [correctedPages, text, promptType, originalPages]
+  );
+  const tables = useMemo(() => extractTables(resultPages), [resultPages]);
+  const diff = useMemo(
+    () => (isCorrected ? diffLines(extractedText, text) : []),
+    [isCorrected, extractedText, text]
+  );
+  const diffStats = getDiffStats(diff);
+  const baseName = fileName.replace(/\.[^.]+$/, "");
+
+  const handleRegionClick = (region: GroundingRegion) => {
+    setActiveRegionId(region.id);
+    blockRefs.current.get(region.id)?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  };
+
+  const handleBlockHover = (region: GroundingRegion | null) => {
+    setActiveRegionId(region?.id ?? null);
+    if (region && region.page !== shownPage) {
+      setCurrentPage(region.page);
+    }
+  };
 
   const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(extractedText);
+      await navigator.clipboard.writeText(text);
       setCopied(true);
       toast.success("Copied to clipboard");
       setTimeout(() => setCopied(false), 2000);
@@ -39,6 +217,80 @@ export function OCRPreview({
     }
   };
 
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      const blob = await exportDocument(
+        {
+          fileName,
+          promptType: promptType ?? "document",
+          pages: resultPages,
+          pageCount: correctedPages ? pageCount : 1,
+          file: sourceFile,
+          rotations: sourceRotations,
+        },
+        format
+      );
+      saveAs(blob, getExportFileName(fileName, format));
+    } catch (error) {
+      toast.error("Failed to export file");
+      console.error("Export error:", error);
+    }
+  };
+
+  const handleStartEditing = () => {
+    setDraft(text);
+    setView("text");
+  };
+
+  const handleSaveText = async (next: string) => {
+    // Edits that end up identical to the original clear the correction
+    const corrected = next === extractedText ? null : next;
+
+    if (onSaveCorrection) {
+      setIsSaving(true);
+      const saved = await onSaveCorrection(corrected);
+      setIsSaving(false);
+      if (!saved) return;
+    }
+
+    setText(next);
+    setDraft(null);
+    if (corrected === null) {
+      setView("text");
+    }
+    toast.success(corrected === null ? "Showing the original text" : "Corrections saved");
+  };
+
+  const handleTableDownload = async (table: ExtractedTable, format: "csv" | "xlsx") => {
+    const name = `${baseName}-table-${table.index}`;
+
+    try {
+      if (format === "csv") {
+        saveAs(tableToCSVBlob(table), `${name}.csv`);
+      } else {
+        const workbook = await createWorkbook([
+          { name: getTableName(table, multiPage), rows: tableToRows(table) },
+        ]);
+        saveAs(workbook, `${name}.xlsx`);
+      }
+    } catch (error) {
+      toast.error("Failed to download table");
+      console.error("Table download error:", error);
+    }
+  };
+
+  const handleAllTablesDownload = async () => {
+    try {
+      const workbook = await createWorkbook(
+        tables.map((table) => ({ name: getTableName(table, multiPage), rows: tableToRows(table) }))
+      );
+      saveAs(workbook, `${baseName}-tables.xlsx`);
+    } catch (error) {
+      toast.error("Failed to download tables");
+      console.error("Table download error:", error);
+    }
+  };
+
   return (
     <div className="space-y-4">
       {/* Header */}
@@ -46,8 +298,50 @@ export function OCRPreview({
         <div className="flex items-center gap-2">
           <FileText className="h-5 w-5" />
           <h2 className="text-xl font-semibold">{fileName}</h2>
+          {promptType && (
+            <Badge
+              variant="outline"
+              title={
+                pagePromptTypes
+                  ? Object.entries(pagePromptTypes)
+                      .map(([page, type]) => `Page ${page}: ${getPromptLabel(type)}`)
+                      .join("\n")
+                  : undefined
+              }
+            >
+              {pagePromptTypes ? "Mixed modes" : getPromptLabel(promptType)}
+            </Badge>
+          )}
+          {pages && textLayerPages.length > 0 && (
+            <Badge
+              variant="secondary"
+              title={[
+                `Embedded text: pages ${formatPageList(textLayerPages)}`,
+                textLayerPages.length < pages.length &&
+                  `OCR: pages ${formatPageList(
+                    pages.filter((page) => page.source !== "text-layer").map((page) => page.pageNumber)
+                  )}`,
+              ]
+                .filter(Boolean)
+                .join("\n")}
+            >
+              {textLayerPages.length === pages.length
+                ? "Embedded text"
+                : `${textLayerPages.length} of ${pages.length} pages from embedded text`}
+            </Badge>
+          )}
+          {pages && cachedPages.length > 0 && (
+            <Badge
+              variant="secondary"
+              title={`Reused from an earlier extraction, no tokens spent: pages ${formatPageList(cachedPages)}`}
+            >
+              {cachedPages.length === pages.length
+                ? "Cached"
+                : `${cachedPages.length} of ${pages.length} pages cached`}
+            </Badge>
+          )}
         </div>
-        {tokensUsed && (
+        {!!tokensUsed && (
           <div className="text-sm text-muted-foreground">
             {tokensUsed.toLocaleString()} tokens used
           </div>
@@ -57,83 +351,298 @@ export function OCRPreview({
       {/* Two-column layout on desktop, stacked on mobile */}
       <div className="grid gap-4 md:grid-cols-2">
         {/* Left: Original file preview (if available) */}
-        {filePreview && (
+        {showOriginal && (
           <Card>
             <CardHeader>
-              <CardTitle className="text-base">Original Document</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">Original Document</CardTitle>
+                {isGrounded && previewPages.length > 1 && (
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => setCurrentPage(previewPages[pageIndex - 1])}
+                      disabled={pageIndex <= 0}
+                      aria-label="Previous page"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span title={`Page ${shownPage}`}>
+                      {pageIndex + 1} / {previewPages.length}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => setCurrentPage(previewPages[pageIndex + 1])}
+                      disabled={pageIndex >= previewPages.length - 1}
+                      aria-label="Next page"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
-              <div className="overflow-hidden rounded-lg border">
-                <img
-                  src={filePreview}
-                  alt={fileName}
-                  className="h-auto w-full object-contain"
-                  style={{ maxHeight: "600px" }}
+              {isGrounded && pageImage ? (
+                <GroundingOverlay
+                  image={pageImage}
+                  alt={`${fileName} page ${shownPage}`}
+                  regions={regions.filter((region) => region.page === shownPage)}
+                  activeRegionId={activeRegionId}
+                  onRegionHover={(region) => setActiveRegionId(region?.id ?? null)}
+                  onRegionClick={handleRegionClick}
                 />
-              </div>
+              ) : (
+                <div className="overflow-hidden rounded-lg border">
+                  <img
+                    src={filePreview ?? pageImage}
+                    alt={fileName}
+                    className="h-auto w-full object-contain"
+                    style={{ maxHeight: "600px" }}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
 
         {/* Right: Extracted text with markdown rendering */}
-        <Card className={filePreview ? "" : "md:col-span-2"}>
+        <Card className={showOriginal ? "" : "md:col-span-2"}>
           <CardHeader>
             <div className="flex items-center justify-between">
-              <CardTitle className="text-base">Extracted Text</CardTitle>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleCopy}
-                className="gap-2"
-              >
-                {copied ? (
-                  <>
-                    <Check className="h-4 w-4" />
-                    Copied
-                  </>
-                ) : (
-                  <>
-                    <Copy className="h-4 w-4" />
-                    Copy
-                  </>
-                )}
-              </Button>
+              {isEditing ? (
+                <CardTitle className="text-base">Edit Text</CardTitle>
+              ) : (
+                <div className="flex flex-wrap items-center gap-1">
+                  <Button
+                    variant={view === "text" ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setView("text")}
+                  >
+                    {isCorrected ? "Corrected Text" : "Extracted Text"}
+                  </Button>
+                  {tables.length > 0 && (
+                    <Button
+                      variant={view === "tables" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setView("tables")}
+                      className="gap-2"
+                    >
+                      <Table2 className="h-4 w-4" />
+                      Tables ({tables.length})
+                    </Button>
+                  )}
+                  {isCorrected && (
+                    <Button
+                      variant={view === "changes" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setView("changes")}
+                      className="gap-2"
+                    >
+                      <GitCompare className="h-4 w-4" />
+                      Changes
+                      <span className="text-xs text-green-600 dark:text-green-400">+{diffStats.added}</span>
+                      <span className="text-xs text-red-600 dark:text-red-400">−{diffStats.removed}</span>
+                    </Button>
+                  )}
+                  <Button
+                    variant={view === "fields" ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setView("fields")}
+                    className="gap-2"
+                  >
+                    <ListChecks className="h-4 w-4" />
+                    Fields
+                  </Button>
+                </div>
+              )}
+              {isEditing ? (
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setDraft(null)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleSaveText(draft)}
+                    disabled={isSaving || draft === text}
+                    className="gap-2"
+                  >
+                    {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Save
+                  </Button>
+                </div>
+              ) : view === "tables" ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAllTablesDownload}
+                  className="gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  All as XLSX
+                </Button>
+              ) : view === "fields" ? null : view === "changes" ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleSaveText(extractedText)}
+                  disabled={isSaving}
+                  className="gap-2"
+                >
+                  <Undo2 className="h-4 w-4" />
+                  Revert
+                </Button>
+              ) : (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={handleStartEditing} className="gap-2">
+                    <Pencil className="h-4 w-4" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCopy}
+                    className="gap-2"
+                  >
+                    {copied ? (
+                      <>
+                        <Check className="h-4 w-4" />
+                        Copied
+                      </>
+                    ) : (
+                      <>
+                        <Copy className="h-4 w-4" />
+                        Copy
+                      </>
+                    )}
+                  </Button>
+                </div>
+              )}
             </div>
           </CardHeader>
           <CardContent>
-            <div className="prose prose-sm dark:prose-invert max-w-none overflow-auto rounded-lg border bg-muted/30 p-4">
-              <Markdown
-                components={{
-                  code({ children, className }) {
-                    const match = /language-(\w+)/.exec(className || "");
-                    return match ? (
-                      <SyntaxHighlighter
-                        PreTag="div"
-                        language={match[1]}
-                        style={oneDark}
-                      >
-                        {String(children).replace(/\n$/, "")}
-                      </SyntaxHighlighter>
-                    ) : (
-                      <code className="rounded bg-muted px-1 py-0.5 font-mono text-sm">
-                        {children}
-                      </code>
-                    );
-                  },
-                  table(props) {
-                    return (
-                      <div className="overflow-x-auto">
-                        <table className="min-w-full divide-y divide-border">
-                          {props.children}
-                        </table>
+            {isEditing ? (
+              <div className="grid gap-4 md:grid-cols-2">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  aria-label="Markdown editor"
+                  spellCheck={false}
+                  className="max-h-[70vh] min-h-[400px] overflow-auto font-mono text-xs"
+                />
+                <div className="prose prose-sm dark:prose-invert max-h-[70vh] max-w-none overflow-auto rounded-lg border bg-muted/30 p-4">
+                  <Markdown components={markdownComponents}>{draft}</Markdown>
+                </div>
+              </div>
+            ) : view === "fields" ? (
+              <FieldExtractor fileName={fileName} text={text} />
+            ) : view === "changes" ? (
+              <div className="max-h-[600px] overflow-auto rounded-lg border bg-muted/30 py-2 font-mono text-xs">
+                {diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      "whitespace-pre-wrap px-3",
+                      line.type === "added" && "bg-green-500/10 text-green-700 dark:text-green-400",
+                      line.type === "removed" && "bg-red-500/10 text-red-700 line-through dark:text-red-400",
+                      line.type === "equal" && "text-muted-foreground"
+                    )}
+                  >
+                    {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                    {line.text}
+                  </div>
+                ))}
+              </div>
+            ) : view === "tables" ? (
+              <div className="space-y-4">
+                {tables.map((table) => (
+                  <div key={table.id} className="overflow-hidden rounded-lg border">
+                    <div className="flex items-center justify-between gap-2 border-b bg-muted/30 px-3 py-2">
+                      <p className="text-sm font-medium">
+                        {getTableName(table, multiPage)}
+                        <span className="ml-2 font-normal text-muted-foreground">
+                          {table.rows.length} × {table.header.length}
+                        </span>
+                      </p>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleTableDownload(table, "csv")}>
+                          CSV
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleTableDownload(table, "xlsx")}>
+                          XLSX
+                        </Button>
                       </div>
-                    );
-                  },
-                }}
-              >
-                {extractedText}
-              </Markdown>
-            </div>
+                    </div>
+                    <div className="max-h-64 overflow-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr>
+                            {table.header.map((cell, c) => (
+                              <th key={c} className="border-b bg-muted/50 px-2 py-1 text-left font-medium">
+                                {cell}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {table.rows.map((row, r) => (
+                            <tr key={r}>
+                              {row.map((cell, c) => (
+                                <td key={c} className="border-b px-2 py-1">
+                                  {cell}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="prose prose-sm dark:prose-invert max-w-none overflow-auto rounded-lg border bg-muted/30 p-4">
+                {isGrounded ? (
+                  <div className="space-y-1">
+                    {regions.map((region, index) => (
+                      <div key={region.id}>
+                        {previewPages.length > 1 && region.page !== regions[index - 1]?.page && (
+                          <h2>Page {region.page}</h2>
+                        )}
+                        <div
+                          ref={(el) => {
+                            if (el) {
+                              blockRefs.current.set(region.id, el);
+                            } else {
+                              blockRefs.current.delete(region.id);
+                            }
+                          }}
+                          onMouseEnter={() => handleBlockHover(region)}
+                          onMouseLeave={() => handleBlockHover(null)}
+                          className={cn(
+                            "-mx-2 rounded-md px-2 transition-colors",
+                            region.id === activeRegionId && "bg-primary/10 ring-1 ring-primary/40"
+                          )}
+                        >
+                          {region.text ? (
+                            <Markdown components={markdownComponents}>{region.text}</Markdown>
+                          ) : (
+                            <p className="italic text-muted-foreground">[{region.label}]</p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <Markdown
+                    components={markdownComponents}
+                  >
+                    {text}
+                  </Markdown>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -144,9 +653,32 @@ export function OCRPreview({
           <Copy className="h-4 w-4" />
           Copy All Text
         </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="gap-2">
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-48">
+            {EXPORT_FORMATS.filter((format) => !format.requiresFile || sourceFile).map((format) =>
+              // Text that no longer splits into pages can't be laid over the page images
+              format.requiresFile && !correctedPages ? (
+                <DropdownMenuItem key={format.value} disabled className="flex-col items-start gap-0">
+                  {format.label} (.{format.extension})
+                  <span className="text-xs">Restore the &quot;## Page N&quot; headings in your edits to export</span>
+                </DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem key={format.value} onSelect={() => handleExport(format.value)}>
+                  {format.label} (.{format.extension})
+                </DropdownMenuItem>
+              )
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
         {onClose && (
           <Button variant="outline" onClick={onClose}>
-            Process Another File
+            {closeLabel}
           </Button>
         )}
       </div>
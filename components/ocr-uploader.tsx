@@ -1,26 +1,165 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { validateFile } from "@/lib/deepseek-client";
-import { Upload, X, FileText, Image as ImageIcon } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { validateFile, OCR_PROMPT_OPTIONS, type OCRPromptType } from "@/lib/deepseek-client";
+import { getPageCount, hasPages, isPDF, parsePageRanges } from "@/lib/pdf-utils";
+import { MAX_FILES, MAX_FILE_SIZE_MB } from "@/lib/upload-limits";
+import {
+  createPagePromptOverride,
+  createUploadItem,
+  estimateTokens,
+  getFileFingerprint,
+  getSelectedPages,
+  hasSameContent,
+  type PagePromptOverride,
+  type UploadItem,
+} from "@/lib/upload-item";
+import { mergeItems, parseSplitRanges, splitItem } from "@/lib/document-builder";
+import {
+  Upload,
+  X,
+  FileText,
+  Image as ImageIcon,
+  Layers,
+  Plus,
+  GripVertical,
+  Combine,
+  Scissors,
+  Loader2,
+} from "lucide-react";
 import { toast } from "sonner";
 import { CameraCapture } from '@/components/camera-capture';
+import { PDFPagePicker } from "@/components/pdf-page-picker";
 
 interface OCRUploaderProps {
-  onFilesSelected: (files: File[]) => void;
+  items: UploadItem[];
+  onItemsChange: (items: UploadItem[]) => void;
   onCameraCapture: (file: File) => void;
   maxFiles?: number;
 }
 
-export function OCRUploader({ onFilesSelected, onCameraCapture, maxFiles = 10 }: OCRUploaderProps) {
-  const [files, setFiles] = useState<File[]>([]);
+interface PromptTypeSelectProps {
+  value: OCRPromptType;
+  onChange: (value: OCRPromptType) => void;
+  className?: string;
+}
+
+function PromptTypeSelect({ value, onChange, className }: PromptTypeSelectProps) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as OCRPromptType)}>
+      <SelectTrigger size="sm" className={className} aria-label="OCR mode">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {OCR_PROMPT_OPTIONS.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            <div className="flex flex-col">
+              <span>{option.label}</span>
+              <span className="text-xs text-muted-foreground">{option.description}</span>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function OCRUploader({ items, onItemsChange, onCameraCapture, maxFiles = MAX_FILES }: OCRUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Page count per PDF or decoded image item id; null when the file couldn't be read
+  const [pageCounts, setPageCounts] = useState<Record<string, number | null>>({});
+  // Content per item id, for spotting the same file uploaded twice; items with
+  // the same contentId have identical bytes. null when the file couldn't be read
+  const [fileContents, setFileContents] = useState<
+    Record<string, { fingerprint: string; contentId: string } | null>
+  >({});
+  // Items ticked for merging, and the one being dragged to a new position
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [splitRanges, setSplitRanges] = useState<Record<string, string>>({});
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  // Count pages one file at a time for the selection and token estimates
+  useEffect(() => {
+    const next = items.find((item) => hasPages(item.file) && pageCounts[item.id] === undefined);
+    if (!next) return;
+
+    const controller = new AbortController();
+    getPageCount(next.file, controller.signal)
+      .then((count) => setPageCounts((prev) => ({ ...prev, [next.id]: count })))
+      .catch((error) => {
+        if (error.name === "AbortError") return;
+        console.error("Error counting pages:", error);
+        setPageCounts((prev) => ({ ...prev, [next.id]: null }));
+      });
+
+    return () => controller.abort();
+  }, [items, pageCounts]);
+
+  // Fingerprint files one at a time and warn when one repeats an earlier upload
+  useEffect(() => {
+    const next = items.find((item) => fileContents[item.id] === undefined);
+    if (!next) return;
+
+    const findOriginal = async (fingerprint: string) => {
+      // Only files with a matching fingerprint are compared in full
+      for (const item of items) {
+        if (item.id !== next.id && fileContents[item.id]?.fingerprint === fingerprint) {
+          if (await hasSameContent(item.file, next.file)) return item;
+        }
+      }
+      return undefined;
+    };
+
+    let cancelled = false;
+    getFileFingerprint(next.file)
+      .then(async (fingerprint) => {
+        const original = await findOriginal(fingerprint);
+        if (cancelled) return;
+
+        const contentId = original ? fileContents[original.id]!.contentId : next.id;
+        setFileContents((prev) => ({ ...prev, [next.id]: { fingerprint, contentId } }));
+        if (original) {
+          toast.warning(`${next.file.name} has the same content as ${original.file.name}`);
+        }
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error reading file:", error);
+        setFileContents((prev) => ({ ...prev, [next.id]: null }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [items, fileContents]);
+
+  // The first earlier item with the same content, if any
+  const getDuplicateOf = (item: UploadItem, index: number) => {
+    const contentId = fileContents[item.id]?.contentId;
+    return contentId
+      ? items.slice(0, index).find((other) => fileContents[other.id]?.contentId === contentId)
+      : undefined;
+  };
+
+  const getItemPageCount = (item: UploadItem) => (hasPages(item.file) ? pageCounts[item.id] : 1);
+  const isEstimateReady = items.every((item) => typeof getItemPageCount(item) === "number");
+  const totalEstimate = items.reduce((total, item) => total + estimateTokens(item, getItemPageCount(item) ?? 0), 0);
 
   const handleFiles = useCallback(
-    (newFiles: FileList | null) => {
+    (newFiles: FileList | File[] | null) => {
       if (!newFiles) return;
 
       const fileArray = Array.from(newFiles);
@@ -38,10 +177,10 @@ export function OCRUploader({ onFilesSelected, onCameraCapture, maxFiles = 10 }:
       }
 
       // Check total file count
-      const totalFiles = files.length + validFiles.length;
+      const totalFiles = items.length + validFiles.length;
       if (totalFiles > maxFiles) {
-        toast.error(`Maximum ${maxFiles} files allowed. Only added first ${maxFiles - files.length} files.`);
-        validFiles.splice(maxFiles - files.length);
+        toast.error(`Maximum ${maxFiles} files allowed. Only added first ${maxFiles - items.length} files.`);
+        validFiles.splice(maxFiles - items.length);
       }
 
       // Show errors
@@ -49,13 +188,11 @@ export function OCRUploader({ onFilesSelected, onCameraCapture, maxFiles = 10 }:
 
       // Add valid files
       if (validFiles.length > 0) {
-        const updatedFiles = [...files, ...validFiles];
-        setFiles(updatedFiles);
-        onFilesSelected(updatedFiles);
+        onItemsChange([...items, ...validFiles.map((file) => createUploadItem(file))]);
         toast.success(`${validFiles.length} file${validFiles.length > 1 ? "s" : ""} added`);
       }
     },
-    [files, maxFiles, onFilesSelected]
+    [items, maxFiles, onItemsChange]
   );
 
   const handleDrop = useCallback(
@@ -69,7 +206,10 @@ export function OCRUploader({ onFilesSelected, onCameraCapture, maxFiles = 10 }:
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
-    setIsDragging(true);
+    // Rows dragged to reorder aren't uploads
+    if (e.dataTransfer.types.includes("Files")) {
+      setIsDragging(true);
+    }
   }, []);
 
   const handleDragLeave = useCallback((e: React.DragEvent) => {
@@ -86,21 +226,88 @@ export function OCRUploader({ onFilesSelected, onCameraCapture, maxFiles = 10 }:
     [handleFiles]
   );
 
-  const removeFile = (index: number) => {
-    const updatedFiles = files.filter((_, i) => i !== index);
-    setFiles(updatedFiles);
-    onFilesSelected(updatedFiles);
+  const removeFile = (id: string) => {
+    onItemsChange(items.filter((item) => item.id !== id));
     toast.info("File removed");
   };
 
   const clearAll = () => {
-    setFiles([]);
-    onFilesSelected([]);
+    onItemsChange([]);
     toast.info("All files cleared");
   };
 
+  /**
+   * Move an item to another item's position; files are processed in list order
+   */
+  const moveItem = (id: string, targetIndex: number) => {
+    const from = items.findIndex((item) => item.id === id);
+    if (from === -1 || targetIndex < 0 || targetIndex >= items.length || from === targetIndex) return;
+
+    const next = [...items];
+    const [moved] = next.splice(from, 1);
+    next.splice(targetIndex, 0, moved);
+    onItemsChange(next);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]));
+  };
+
+  // Ticked items in list order; ids of removed items drop out here
+  const selectedItems = items.filter((item) => selectedIds.includes(item.id));
+
+  const mergeSelected = async () => {
+    setIsBuilding(true);
+    try {
+      const merged = await mergeItems(selectedItems);
+      // The merged document takes the place of the first merged file
+      const index = items.findIndex((item) => item.id === selectedItems[0].id);
+      const next = items.filter((item) => !selectedIds.includes(item.id));
+      next.splice(index, 0, merged);
+      onItemsChange(next);
+      setSelectedIds([]);
+      toast.success(`Merged ${selectedItems.length} files into one document`);
+    } catch (error) {
+      console.error("Error merging files:", error);
+      toast.error("Failed to merge files. Encrypted PDFs can't be merged.");
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const splitDocument = async (item: UploadItem, ranges: number[][]) => {
+    setIsBuilding(true);
+    try {
+      const parts = await splitItem(item, ranges);
+      onItemsChange(items.flatMap((current) => (current.id === item.id ? parts : [current])));
+      setExpandedId(null);
+      toast.success(`Split ${item.file.name} into ${parts.length} documents`);
+    } catch (error) {
+      console.error("Error splitting PDF:", error);
+      toast.error("Failed to split PDF. Encrypted PDFs can't be split.");
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const updateItem = (id: string, changes: Partial<UploadItem>) => {
+    onItemsChange(items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const updatePagePrompt = (
+    item: UploadItem,
+    overrideId: string,
+    changes: Partial<PagePromptOverride>
+  ) => {
+    updateItem(item.id, {
+      pagePrompts: item.pagePrompts.map((override) =>
+        override.id === overrideId ? { ...override, ...changes } : override
+      ),
+    });
+  };
+
   const getFileIcon = (file: File) => {
-    if (file.type.startsWith("image/")) {
+    if (!isPDF(file)) {
       return <ImageIcon className="h-4 w-4" />;
     }
     return <FileText className="h-4 w-4" />;
@@ -134,20 +341,21 @@ export function OCRUploader({ onFilesSelected, onCameraCapture, maxFiles = 10 }:
               Drag and drop files here, or tap to browse
             </p>
             <p className="text-xs text-muted-foreground">
-              JPG, PNG, WebP, PDF • Max 10MB
+              JPG, PNG, WebP, TIFF, HEIC, GIF, BMP, PDF • Max {MAX_FILE_SIZE_MB}MB
             </p>
             <div className="mt-4 flex items-center gap-2">
               <span className="text-xs text-muted-foreground">or</span>
               <CameraCapture
                 onCapture={onCameraCapture}
-                disabled={files.length >= maxFiles}
+                onScan={(file) => handleFiles([file])}
+                disabled={items.length >= maxFiles}
               />
             </div>
             <input
               type="file"
               id="file-upload"
               className="hidden"
-              accept="image/jpeg,image/png,image/webp,application/pdf"
+              accept="image/jpeg,image/png,image/webp,image/tiff,image/gif,image/bmp,image/heic,image/heif,.tif,.tiff,.heic,.heif,application/pdf"
               multiple
               onChange={handleFileInput}
             />
@@ -156,45 +364,277 @@ export function OCRUploader({ onFilesSelected, onCameraCapture, maxFiles = 10 }:
       </label>
 
       {/* File List */}
-      {files.length > 0 && (
+      {items.length > 0 && (
         <Card>
           <CardContent className="p-4">
             <div className="mb-3 flex items-center justify-between">
-              <h4 className="text-sm font-medium">
-                Uploaded Files ({files.length}/{maxFiles})
-              </h4>
-              {files.length > 1 && (
-                <Button variant="ghost" size="sm" onClick={clearAll}>
-                  Clear All
-                </Button>
-              )}
-            </div>
-            <div className="space-y-2">
-              {files.map((file, index) => (
-                <div
-                  key={`${file.name}-${index}`}
-                  className="flex items-center gap-3 rounded-lg border p-3 hover:bg-muted/50"
-                >
-                  <div className="shrink-0">{getFileIcon(file)}</div>
-                  <div className="min-w-0 flex-1">
-                    <p className="truncate text-sm font-medium">{file.name}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {formatFileSize(file.size)}
-                    </p>
-                  </div>
-                  <Badge variant="secondary" className="shrink-0">
-                    {file.type.startsWith("image/") ? "Image" : "PDF"}
-                  </Badge>
+              <div>
+                <h4 className="text-sm font-medium">
+                  Uploaded Files ({items.length}/{maxFiles})
+                </h4>
+                {isEstimateReady && (
+                  <p
+                    className="text-xs text-muted-foreground"
+                    title="Rough estimate; pages read from embedded text use no tokens"
+                  >
+                    Estimated cost: ~{totalEstimate.toLocaleString()} tokens
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {selectedItems.length > 1 && (
                   <Button
-                    variant="ghost"
-                    size="icon-sm"
-                    onClick={() => removeFile(index)}
-                    className="shrink-0"
+                    variant="secondary"
+                    size="sm"
+                    onClick={mergeSelected}
+                    disabled={isBuilding}
+                    className="gap-1"
                   >
-                    <X className="h-4 w-4" />
+                    {isBuilding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Combine className="h-4 w-4" />}
+                    Merge {selectedItems.length}
+                  </Button>
+                )}
+                {items.length > 1 && (
+                  <Button variant="ghost" size="sm" onClick={clearAll}>
+                    Clear All
                   </Button>
-                </div>
-              ))}
+                )}
+              </div>
+            </div>
+            {items.length > 1 && (
+              <p className="mb-2 text-xs text-muted-foreground">
+                Drag to reorder. Tick files to merge them into one document.
+              </p>
+            )}
+            <div className="space-y-2">
+              {items.map((item, index) => {
+                const { file } = item;
+                const isExpanded = expandedId === item.id;
+                const pageCount = getItemPageCount(item);
+                const duplicateOf = getDuplicateOf(item, index);
+                const selectedPages = typeof pageCount === "number" ? getSelectedPages(item, pageCount) : [];
+                const splitInput = splitRanges[item.id] ?? "";
+                const parsedSplit =
+                  typeof pageCount === "number" && splitInput.trim() ? parseSplitRanges(splitInput, pageCount) : null;
+
+                return (
+                  <div
+                    key={item.id}
+                    className={`rounded-lg border hover:bg-muted/50 ${draggedId === item.id ? "opacity-50" : ""}`}
+                    onDragOver={(e) => {
+                      if (!draggedId) return;
+                      e.preventDefault();
+                      moveItem(draggedId, index);
+                    }}
+                    onDrop={(e) => {
+                      if (!draggedId) return;
+                      e.preventDefault();
+                      setDraggedId(null);
+                    }}
+                  >
+                    <div className="flex flex-wrap items-center gap-3 p-3">
+                      {items.length > 1 && (
+                        <>
+                          <button
+                            type="button"
+                            draggable
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = "move";
+                              // Firefox only starts a drag with data set
+                              e.dataTransfer.setData("text/plain", item.id);
+                              setDraggedId(item.id);
+                            }}
+                            onDragEnd={() => setDraggedId(null)}
+                            onKeyDown={(e) => {
+                              if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+                                e.preventDefault();
+                                moveItem(item.id, index + (e.key === "ArrowUp" ? -1 : 1));
+                              }
+                            }}
+                            className="shrink-0 cursor-grab text-muted-foreground active:cursor-grabbing"
+                            aria-label={`Reorder ${file.name}; use the arrow keys to move it`}
+                          >
+                            <GripVertical className="h-4 w-4" />
+                          </button>
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(item.id)}
+                            onChange={() => toggleSelected(item.id)}
+                            className="shrink-0 accent-primary"
+                            aria-label={`Select ${file.name} for merging`}
+                          />
+                        </>
+                      )}
+                      <div className="shrink-0">{getFileIcon(file)}</div>
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{file.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatFileSize(file.size)}
+                          {hasPages(file) && typeof pageCount === "number" && (
+                            <>
+                              {" • "}
+                              {selectedPages.length === pageCount
+                                ? `${pageCount} page${pageCount === 1 ? "" : "s"}`
+                                : `${selectedPages.length} of ${pageCount} pages`}
+                            </>
+                          )}
+                          {typeof pageCount === "number" &&
+                            ` • ~${estimateTokens(item, pageCount).toLocaleString()} tokens`}
+                        </p>
+                      </div>
+                      {duplicateOf && (
+                        <Badge
+                          variant="secondary"
+                          className="shrink-0 bg-yellow-500/10 text-yellow-600 dark:text-yellow-400"
+                          title={`Same content as ${duplicateOf.file.name}`}
+                        >
+                          Duplicate
+                        </Badge>
+                      )}
+                      <Badge variant="secondary" className="shrink-0">
+                        {isPDF(file) ? "PDF" : "Image"}
+                      </Badge>
+                      <PromptTypeSelect
+                        value={item.promptType}
+                        onChange={(promptType) => updateItem(item.id, { promptType })}
+                        className="shrink-0"
+                      />
+                      {hasPages(file) && (
+                        <Button
+                          variant={
+                            item.pagePrompts.length > 0 || item.pages || Object.keys(item.rotations).length > 0
+                              ? "secondary"
+                              : "ghost"
+                          }
+                          size="icon-sm"
+                          onClick={() => setExpandedId(isExpanded ? null : item.id)}
+                          className="shrink-0"
+                          aria-label="Page options"
+                          aria-expanded={isExpanded}
+                        >
+                          <Layers className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => removeFile(item.id)}
+                        className="shrink-0"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    {/* Per page range modes for PDFs and multi-page images */}
+                    {isExpanded && (
+                      <div className="space-y-2 border-t p-3">
+                        <PDFPagePicker
+                          file={file}
+                          pages={item.pages}
+                          rotations={item.rotations}
+                          onChange={(changes) => updateItem(item.id, changes)}
+                        />
+                        {isPDF(file) && typeof pageCount === "number" && pageCount > 1 && (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={splitInput}
+                              onChange={(e) =>
+                                setSplitRanges((prev) => ({ ...prev, [item.id]: e.target.value }))
+                              }
+                              placeholder="Split into documents, e.g. 1-3; 4-6; 7-"
+                              aria-label="Split into documents"
+                              aria-invalid={splitInput.trim() !== "" && !parsedSplit}
+                              className="h-8 flex-1"
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => parsedSplit && splitDocument(item, parsedSplit)}
+                              disabled={!parsedSplit || isBuilding}
+                              className="gap-1"
+                            >
+                              <Scissors className="h-4 w-4" />
+                              Split
+                            </Button>
+                          </div>
+                        )}
+                        {isPDF(file) && (
+                          <label className="flex items-start gap-2 text-sm">
+                            <input
+                              type="checkbox"
+                              checked={item.useTextLayer}
+                              onChange={(e) => updateItem(item.id, { useTextLayer: e.target.checked })}
+                              className="mt-0.5 accent-primary"
+                            />
+                            <span>
+                              Use embedded text where available
+                              <span className="block text-xs text-muted-foreground">
+                                Pages with selectable text skip OCR in Document, General and Plain Text modes
+                              </span>
+                            </span>
+                          </label>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          Pages not covered by a range use the file mode above.
+                        </p>
+                        {item.pagePrompts.map((override) => {
+                          const isInvalid =
+                            override.range.trim() !== "" &&
+                            parsePageRanges(override.range) === null;
+
+                          return (
+                            <div key={override.id} className="flex items-center gap-2">
+                              <Input
+                                value={override.range}
+                                onChange={(e) =>
+                                  updatePagePrompt(item, override.id, { range: e.target.value })
+                                }
+                                placeholder="e.g. 1-3,7"
+                                aria-label="Page range"
+                                aria-invalid={isInvalid}
+                                className="h-8 flex-1"
+                              />
+                              <PromptTypeSelect
+                                value={override.promptType}
+                                onChange={(promptType) =>
+                                  updatePagePrompt(item, override.id, { promptType })
+                                }
+                              />
+                              <Button
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() =>
+                                  updateItem(item.id, {
+                                    pagePrompts: item.pagePrompts.filter(
+                                      (p) => p.id !== override.id
+                                    ),
+                                  })
+                                }
+                                aria-label="Remove page range"
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          );
+                        })}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            updateItem(item.id, {
+                              pagePrompts: [...item.pagePrompts, createPagePromptOverride()],
+                            })
+                          }
+                          className="gap-1"
+                        >
+                          <Plus className="h-4 w-4" />
+                          Add Page Range
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </CardContent>
         </Card>
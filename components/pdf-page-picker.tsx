@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, RotateCw } from "lucide-react";
+import { toast } from "sonner";
+import { openPages, parsePageRanges } from "@/lib/pdf-utils";
+import { formatPageList } from "@/lib/ocr-result";
+import type { UploadItem } from "@/lib/upload-item";
+
+const THUMBNAIL_WIDTH = 120;
+
+interface PDFPagePickerProps {
+  file: File;
+  pages: number[] | null;
+  rotations: Record<number, number>;
+  onChange: (changes: Partial<Pick<UploadItem, "pages" | "rotations">>) => void;
+}
+
+/**
+ * Thumbnail strip for choosing and rotating the pages of a PDF or multi-page image before extraction
+ */
+export function PDFPagePicker({ file, pages, rotations, onChange }: PDFPagePickerProps) {
+  const [pageCount, setPageCount] = useState<number | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [range, setRange] = useState(pages ? formatPageList(pages) : "");
+
+  // Thumbnails render one at a time in the PDF worker; unmounting stops it
+  useEffect(() => {
+    const controller = new AbortController();
+    const urls: string[] = [];
+
+    (async () => {
+      try {
+        const pdf = await openPages(file, { signal: controller.signal });
+        setPageCount(pdf.numPages);
+
+        try {
+          for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const url = await pdf.renderThumbnail(pageNumber, THUMBNAIL_WIDTH);
+            urls.push(url);
+            setThumbnails((prev) => ({ ...prev, [pageNumber]: url }));
+          }
+        } finally {
+          await pdf.destroy();
+        }
+      } catch (error) {
+        if ((error as Error).name !== "AbortError") {
+          console.error("Thumbnail error:", error);
+          toast.error(`Failed to load pages of ${file.name}`);
+        }
+      }
+    })();
+
+    return () => {
+      controller.abort();
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [file]);
+
+  const isSelected = (pageNumber: number) => !pages || pages.includes(pageNumber);
+
+  const selectPages = (next: number[]) => {
+    if (next.length === 0) {
+      toast.error("Select at least one page");
+      return;
+    }
+
+    const all = next.length === pageCount;
+    setRange(all ? "" : formatPageList(next));
+    onChange({ pages: all ? null : next });
+  };
+
+  const togglePage = (pageNumber: number) => {
+    const current = pages ?? Array.from({ length: pageCount ?? 0 }, (_, index) => index + 1);
+    selectPages(
+      isSelected(pageNumber)
+        ? current.filter((page) => page !== pageNumber)
+        : [...current, pageNumber].sort((a, b) => a - b)
+    );
+  };
+
+  const handleRangeChange = (value: string) => {
+    setRange(value);
+
+    if (!value.trim()) {
+      onChange({ pages: null });
+      return;
+    }
+
+    const parsed = parsePageRanges(value, pageCount ?? undefined);
+    if (parsed && parsed.length > 0) {
+      onChange({ pages: parsed });
+    }
+  };
+
+  const rotatePage = (pageNumber: number) => {
+    const rotation = ((rotations[pageNumber] ?? 0) + 90) % 360;
+    const next = { ...rotations };
+    if (rotation) {
+      next[pageNumber] = rotation;
+    } else {
+      delete next[pageNumber];
+    }
+    onChange({ rotations: next });
+  };
+
+  const parsedRange = range.trim() ? parsePageRanges(range, pageCount ?? undefined) : null;
+  const isRangeInvalid = range.trim() !== "" && (!parsedRange || parsedRange.length === 0);
+
+  if (pageCount === null) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          value={range}
+          onChange={(e) => handleRangeChange(e.target.value)}
+          placeholder={`All ${pageCount} pages, or e.g. 1-3,7`}
+          aria-label="Pages to extract"
+          aria-invalid={isRangeInvalid}
+          className="h-8 flex-1"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => selectPages(Array.from({ length: pageCount }, (_, index) => index + 1))}
+        >
+          All
+        </Button>
+      </div>
+
+      <div className="grid max-h-72 grid-cols-4 gap-2 overflow-y-auto sm:grid-cols-6">
+        {Array.from({ length: pageCount }, (_, index) => {
+          const pageNumber = index + 1;
+          const selected = isSelected(pageNumber);
+          const rotation = rotations[pageNumber] ?? 0;
+
+          return (
+            <div key={pageNumber} className="relative">
+              <button
+                type="button"
+                onClick={() => togglePage(pageNumber)}
+                aria-pressed={selected}
+                aria-label={`Page ${pageNumber}`}
+                className={`flex aspect-square w-full items-center justify-center overflow-hidden rounded-md border-2 bg-muted/30 p-1 transition-opacity ${
+                  selected ? "border-primary" : "border-transparent opacity-40"
+                }`}
+              >
+                {thumbnails[pageNumber] ? (
+                  // Thumbnails are object URLs, so skip the optimizer; CSS sets the size
+                  <Image
+                    src={thumbnails[pageNumber]}
+                    alt=""
+                    width={0}
+                    height={0}
+                    unoptimized
+                    className="h-auto max-h-full w-auto max-w-full object-contain transition-transform"
+                    style={{ transform: `rotate(${rotation}deg)` }}
+                  />
+                ) : (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                )}
+              </button>
+              <span className="pointer-events-none absolute bottom-1 left-1 rounded bg-background/80 px-1 text-[10px]">
+                {pageNumber}
+              </span>
+              <Button
+                variant="secondary"
+                size="icon-xs"
+                onClick={() => rotatePage(pageNumber)}
+                aria-label={`Rotate page ${pageNumber}`}
+                className="absolute right-1 top-1"
+              >
+                <RotateCw className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import Markdown from "react-markdown";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -13,6 +14,11 @@ interface ProcessingOverlayProps {
     currentStep: string;
     currentPage?: number;
     totalPages?: number;
+    /** Current attempt when the request is being retried */
+    attempt?: number;
+    maxAttempts?: number;
+    /** Text streamed so far for the current page */
+    partialText?: string;
     onCancel?: () => void;
 }
 
@@ -22,9 +28,13 @@ export function ProcessingOverlay({
     currentStep,
     currentPage,
     totalPages,
+    attempt,
+    maxAttempts,
+    partialText,
     onCancel,
 }: ProcessingOverlayProps) {
     const [dots, setDots] = useState("");
+    const outputRef = useRef<HTMLDivElement>(null);
 
     // Animated dots for "Processing..."
     useEffect(() => {
@@ -34,6 +44,13 @@ export function ProcessingOverlay({
         return () => clearInterval(interval);
     }, []);
 
+    // Keep the newest streamed text in view
+    useEffect(() => {
+        if (outputRef.current) {
+            outputRef.current.scrollTop = outputRef.current.scrollHeight;
+        }
+    }, [partialText]);
+
     // Calculate progress percentage
     const progress = totalPages && currentPage
         ? Math.round((currentPage / totalPages) * 100)
@@ -54,6 +71,11 @@ export function ProcessingOverlay({
                     <div>
                         <h2 className="text-xl font-semibold">Extracting Text{dots}</h2>
                         <p className="text-sm text-muted-foreground">{currentStep}</p>
+                        {attempt && attempt > 1 && (
+                            <p className="text-xs text-yellow-600 dark:text-yellow-400">
+                                Attempt {attempt} of {maxAttempts}
+                            </p>
+                        )}
                     </div>
                 </div>
                 {onCancel && (
@@ -112,35 +134,49 @@ export function ProcessingOverlay({
                     </CardContent>
                 </Card>
 
-                {/* Right: Skeleton text output */}
-                <Card>
-                    <CardContent className="p-6 space-y-4">
-                        <div className="flex items-center gap-2 mb-4">
-                            <Skeleton className="h-4 w-4 rounded-full" />
-                            <Skeleton className="h-4 w-24" />
-                        </div>
+                {/* Right: live output as it streams in, skeleton until the first tokens */}
+                {partialText ? (
+                    <Card>
+                        <CardContent className="p-6">
+                            <div
+                                ref={outputRef}
+                                className="prose prose-sm dark:prose-invert max-w-none overflow-auto"
+                                style={{ maxHeight: "400px" }}
+                            >
+                                <Markdown>{partialText}</Markdown>
+                            </div>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <Card>
+                        <CardContent className="p-6 space-y-4">
+                            <div className="flex items-center gap-2 mb-4">
+                                <Skeleton className="h-4 w-4 rounded-full" />
+                                <Skeleton className="h-4 w-24" />
+                            </div>
 
-                        {/* Simulated text lines with staggered appearance */}
-                        <div className="space-y-3">
-                            <Skeleton className="h-4 w-full" style={{ animationDelay: "0ms" }} />
-                            <Skeleton className="h-4 w-[90%]" style={{ animationDelay: "100ms" }} />
-                            <Skeleton className="h-4 w-[95%]" style={{ animationDelay: "200ms" }} />
-                            <Skeleton className="h-4 w-[80%]" style={{ animationDelay: "300ms" }} />
-                            <Skeleton className="h-4 w-[85%]" style={{ animationDelay: "400ms" }} />
-                            <Skeleton className="h-4 w-[70%]" style={{ animationDelay: "500ms" }} />
-                        </div>
+                            {/* Simulated text lines with staggered appearance */}
+                            <div className="space-y-3">
+                                <Skeleton className="h-4 w-full" style={{ animationDelay: "0ms" }} />
+                                <Skeleton className="h-4 w-[90%]" style={{ animationDelay: "100ms" }} />
+                                <Skeleton className="h-4 w-[95%]" style={{ animationDelay: "200ms" }} />
+                                <Skeleton className="h-4 w-[80%]" style={{ animationDelay: "300ms" }} />
+                                <Skeleton className="h-4 w-[85%]" style={{ animationDelay: "400ms" }} />
+                                <Skeleton className="h-4 w-[70%]" style={{ animationDelay: "500ms" }} />
+                            </div>
 
-                        <div className="h-4" />
+                            <div className="h-4" />
 
-                        {/* Second paragraph skeleton */}
-                        <div className="space-y-3">
-                            <Skeleton className="h-4 w-[88%]" style={{ animationDelay: "600ms" }} />
-                            <Skeleton className="h-4 w-full" style={{ animationDelay: "700ms" }} />
-                            <Skeleton className="h-4 w-[92%]" style={{ animationDelay: "800ms" }} />
-                            <Skeleton className="h-4 w-[60%]" style={{ animationDelay: "900ms" }} />
-                        </div>
-                    </CardContent>
-                </Card>
+                            {/* Second paragraph skeleton */}
+                            <div className="space-y-3">
+                                <Skeleton className="h-4 w-[88%]" style={{ animationDelay: "600ms" }} />
+                                <Skeleton className="h-4 w-full" style={{ animationDelay: "700ms" }} />
+                                <Skeleton className="h-4 w-[92%]" style={{ animationDelay: "800ms" }} />
+                                <Skeleton className="h-4 w-[60%]" style={{ animationDelay: "900ms" }} />
+                            </div>
+                        </CardContent>
+                    </Card>
+                )}
             </div>
 
             {/* File info */}
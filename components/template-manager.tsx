@@ -0,0 +1,274 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  FIELD_TYPE_OPTIONS,
+  MAX_TEMPLATE_FIELDS,
+  validateTemplateFields,
+  type ExtractionMethod,
+  type FieldTemplate,
+  type FieldType,
+  type TemplateField,
+} from "@/lib/field-templates";
+import { deleteTemplate, listTemplates, saveTemplate } from "@/lib/template-service";
+
+interface TemplateManagerProps {
+  userId: string;
+}
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  method: ExtractionMethod;
+  fields: TemplateField[];
+}
+
+const EMPTY_FIELD: TemplateField = { name: "", type: "text", hint: "" };
+
+/**
+ * Settings card for creating and editing field templates
+ */
+export function TemplateManager({ userId }: TemplateManagerProps) {
+  const [templates, setTemplates] = useState<FieldTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    listTemplates(userId).then(({ templates, error }) => {
+      if (error) {
+        toast.error("Failed to load templates");
+      }
+      setTemplates(templates);
+      setIsLoading(false);
+    });
+  }, [userId]);
+
+  const updateField = (index: number, update: Partial<TemplateField>) => {
+    setDraft((prev) =>
+      prev && {
+        ...prev,
+        fields: prev.fields.map((field, i) => (i === index ? { ...field, ...update } : field)),
+      }
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      toast.error("Give the template a name");
+      return;
+    }
+
+    const fieldsError = validateTemplateFields(draft.fields);
+    if (fieldsError) {
+      toast.error(fieldsError);
+      return;
+    }
+
+    setIsSaving(true);
+    const { template, error } = await saveTemplate(userId, draft, draft.id);
+    setIsSaving(false);
+
+    if (!template) {
+      toast.error(error || "Failed to save template");
+      return;
+    }
+
+    setTemplates((prev) =>
+      [...prev.filter((t) => t.id !== template.id), template].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setDraft(null);
+    toast.success(`Template "${template.name}" saved`);
+  };
+
+  const handleDelete = async (template: FieldTemplate) => {
+    const { success, error } = await deleteTemplate(userId, template.id);
+
+    if (success) {
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      toast.success(`Template "${template.name}" deleted`);
+    } else {
+      toast.error(error || "Failed to delete template");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Field Templates</CardTitle>
+        <CardDescription>
+          Named fields to pull out of recurring documents, such as invoice number, date and total.
+          Hints are extra labels (comma separated) or a /regex/ whose first group is the value.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : draft ? (
+          <div className="space-y-3">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              placeholder="Invoice"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              autoFocus
+            />
+
+            <Label>Extraction</Label>
+            <Select
+              value={draft.method}
+              onValueChange={(value) => setDraft({ ...draft, method: value as ExtractionMethod })}
+            >
+              <SelectTrigger className="w-full" aria-label="Extraction method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rules">Rules (labels, tables, patterns)</SelectItem>
+                <SelectItem value="model">Model pass (uses extra tokens)</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Label>Fields</Label>
+            {draft.fields.map((field, index) => (
+              <div key={index} className="space-y-2 rounded-lg border p-3">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="invoice_number"
+                    value={field.name}
+                    onChange={(e) => updateField(index, { name: e.target.value })}
+                    aria-label="Field name"
+                    className="font-mono"
+                  />
+                  <Select
+                    value={field.type}
+                    onValueChange={(value) => updateField(index, { type: value as FieldType })}
+                  >
+                    <SelectTrigger className="w-32 shrink-0" aria-label="Field type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FIELD_TYPE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setDraft({ ...draft, fields: draft.fields.filter((_, i) => i !== index) })
+                    }
+                    disabled={draft.fields.length === 1}
+                    aria-label={`Remove ${field.name || "field"}`}
+                    className="shrink-0"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Input
+                  placeholder="Hint, e.g. Invoice #, Inv No"
+                  value={field.hint ?? ""}
+                  onChange={(e) => updateField(index, { hint: e.target.value })}
+                  aria-label="Field hint"
+                  className="font-mono text-xs"
+                />
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, fields: [...draft.fields, { ...EMPTY_FIELD }] })}
+              disabled={draft.fields.length >= MAX_TEMPLATE_FIELDS}
+              className="gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Field
+            </Button>
+
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button onClick={handleSave} disabled={isSaving} className="w-full sm:flex-1">
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Template
+              </Button>
+              <Button variant="ghost" onClick={() => setDraft(null)} className="w-full sm:w-auto">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No templates yet.</p>
+            ) : (
+              templates.map((template) => (
+                <div key={template.id} className="flex items-center gap-2 rounded-lg border p-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <p className="truncate text-sm font-medium">{template.name}</p>
+                      {template.method === "model" && <Badge variant="secondary">Model</Badge>}
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {template.fields.map((field) => field.name).join(", ")}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() =>
+                      setDraft({
+                        id: template.id,
+                        name: template.name,
+                        method: template.method,
+                        fields: template.fields,
+                      })
+                    }
+                    aria-label={`Edit ${template.name}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleDelete(template)}
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            <Button
+              variant="outline"
+              onClick={() => setDraft({ name: "", method: "rules", fields: [{ ...EMPTY_FIELD }] })}
+              className="w-full gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              New Template
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
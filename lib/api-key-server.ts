@@ -0,0 +1,112 @@
+import { supabaseAdmin } from "./supabase-server";
+import { decryptApiKey, maskApiKey } from "./encryption";
+import type { StoredKeySummary } from "./api-key-service";
+import {
+  DEFAULT_OCR_PROVIDER,
+  getOCRProvider,
+  isOCRProviderId,
+  type OCRProvider,
+  type OCRProviderConfig,
+  type OCRProviderId,
+} from "./ocr-providers";
+import { getHostGuardDispatcher } from "./ocr-providers/host-guard";
+
+/**
+ * Resolve the signed-in user's active provider and decrypted key on the server
+ * Used by route handlers so the key never has to leave the server
+ * @returns config is null when the user has no key for their active provider
+ */
+export async function getServerProviderConfig(
+  userId: string
+): Promise<{ provider: OCRProvider; config: OCRProviderConfig | null; error?: string }> {
+  let provider = getOCRProvider(DEFAULT_OCR_PROVIDER);
+
+  try {
+    const { data: settings } = await supabaseAdmin
+      .from("user_ocr_settings")
+      .select("active_provider")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (isOCRProviderId(settings?.active_provider)) {
+      provider = getOCRProvider(settings.active_provider);
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("user_api_keys")
+      .select("encrypted_api_key, model, base_url")
+      .eq("user_id", userId)
+      .eq("provider", provider.id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        // No API key found
+        return { provider, config: null };
+      }
+      throw error;
+    }
+
+    const apiKey = await decryptApiKey(data.encrypted_api_key, userId);
+
+    return {
+      provider,
+      config: {
+        apiKey,
+        model: data.model || provider.defaultModel,
+        baseUrl: data.base_url ?? undefined,
+        dispatcher: provider.requiresBaseUrl ? getHostGuardDispatcher() : undefined,
+      },
+    };
+  } catch (error) {
+    console.error("Error retrieving API key:", error);
+    return {
+      provider,
+      config: null,
+      error:
+        error instanceof Error ? error.message : "Failed to retrieve API key",
+    };
+  }
+}
+
+/**
+ * Describe a user's stored key for a provider without revealing it
+ * The key is decrypted here only to build its masked form.
+ */
+export async function getServerKeySummary(
+  userId: string,
+  providerId: OCRProviderId
+): Promise<{ data?: StoredKeySummary; error?: string }> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("user_api_keys")
+      .select("encrypted_api_key, model, base_url")
+      .eq("user_id", userId)
+      .eq("provider", providerId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      return { data: { hasKey: false, maskedKey: null } };
+    }
+
+    const apiKey = await decryptApiKey(data.encrypted_api_key, userId);
+
+    return {
+      data: {
+        hasKey: true,
+        // Self-hosted servers may run without a key
+        maskedKey: apiKey ? maskApiKey(apiKey) : null,
+        model: data.model ?? undefined,
+        baseUrl: data.base_url ?? undefined,
+      },
+    };
+  } catch (error) {
+    console.error("Error retrieving API key:", error);
+    return {
+      error:
+        error instanceof Error ? error.message : "Failed to retrieve API key",
+    };
+  }
+}
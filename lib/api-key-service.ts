@@ -1,40 +1,79 @@
 "use client";
 
 import { supabase } from "./supabase";
-import { encryptApiKey, decryptApiKey } from "./encryption";
+import { encryptApiKey } from "./encryption";
+import {
+  DEFAULT_OCR_PROVIDER,
+  getOCRProvider,
+  isOCRProviderId,
+  type OCRProviderId,
+} from "./ocr-providers";
 
 export interface UserApiKey {
   id: string;
   user_id: string;
+  provider: OCRProviderId;
   encrypted_api_key: string;
+  model: string | null;
+  base_url: string | null;
   created_at: string;
   updated_at: string;
 }
 
 /**
- * Save or update a user's encrypted API key in Supabase
+ * Non-secret provider settings stored next to the key
+ */
+export interface ProviderSettings {
+  model?: string;
+  baseUrl?: string;
+}
+
+/**
+ * What the settings page may know about a stored key
+ */
+export interface StoredKeySummary {
+  hasKey: boolean;
+  /** e.g. "sk-••••••••••••1234"; null when no key is stored or it is empty */
+  maskedKey: string | null;
+  model?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Save or update a user's encrypted API key for a provider in Supabase
+ * @param apiKey - null keeps the stored key and only updates the settings
  */
 export async function saveApiKey(
   userId: string,
-  apiKey: string
+  apiKey: string | null,
+  provider: OCRProviderId = DEFAULT_OCR_PROVIDER,
+  settings: ProviderSettings = {}
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    // Encrypt the API key before storing
-    const encryptedKey = await encryptApiKey(apiKey, userId);
+    const row = {
+      model: settings.model || null,
+      base_url: settings.baseUrl || null,
+    };
 
-    // Check if user already has an API key
+    // Check if user already has a key for this provider
     const { data: existing } = await supabase
       .from("user_api_keys")
       .select("id")
       .eq("user_id", userId)
+      .eq("provider", provider)
       .single();
 
     if (existing) {
       // Update existing key
       const { error } = await supabase
         .from("user_api_keys")
-        .update({ encrypted_api_key: encryptedKey })
-        .eq("user_id", userId);
+        .update(
+          apiKey === null
+            ? row
+            : { ...row, encrypted_api_key: await encryptApiKey(apiKey, userId) }
+        )
+        .eq("user_id", userId)
+        .eq("provider", provider);
 
       if (error) throw error;
     } else {
@@ -43,7 +82,10 @@ export async function saveApiKey(
         .from("user_api_keys")
         .insert({
           user_id: userId,
-          encrypted_api_key: encryptedKey,
+          provider,
+          // Encrypt the API key before storing
+          encrypted_api_key: await encryptApiKey(apiKey ?? "", userId),
+          ...row,
         });
 
       if (error) throw error;
@@ -60,38 +102,25 @@ export async function saveApiKey(
 }
 
 /**
- * Retrieve and decrypt a user's API key from Supabase
+ * Describe the user's stored key for a provider
+ * The server decrypts the key and returns only a masked copy, so the
+ * plaintext never reaches the browser.
  */
-export async function getApiKey(
-  userId: string
-): Promise<{ apiKey: string | null; error?: string }> {
+export async function getStoredKey(
+  provider: OCRProviderId = DEFAULT_OCR_PROVIDER
+): Promise<{ data?: StoredKeySummary; error?: string }> {
   try {
-    const { data, error } = await supabase
-      .from("user_api_keys")
-      .select("encrypted_api_key")
-      .eq("user_id", userId)
-      .single();
+    const response = await fetch(`/api/keys?provider=${encodeURIComponent(provider)}`);
+    const body = (await response.json()) as { data?: StoredKeySummary; error?: { message: string } };
 
-    if (error) {
-      if (error.code === "PGRST116") {
-        // No API key found
-        return { apiKey: null };
-      }
-      throw error;
+    if (!response.ok || !body.data) {
+      throw new Error(body.error?.message ?? "Failed to retrieve API key");
     }
 
-    if (!data?.encrypted_api_key) {
-      return { apiKey: null };
-    }
-
-    // Decrypt the API key
-    const apiKey = await decryptApiKey(data.encrypted_api_key, userId);
-
-    return { apiKey };
+    return { data: body.data };
   } catch (error) {
     console.error("Error retrieving API key:", error);
     return {
-      apiKey: null,
       error:
         error instanceof Error ? error.message : "Failed to retrieve API key",
     };
@@ -99,16 +128,18 @@ export async function getApiKey(
 }
 
 /**
- * Delete a user's API key from Supabase
+ * Delete a user's API key for a provider from Supabase
  */
 export async function deleteApiKey(
-  userId: string
+  userId: string,
+  provider: OCRProviderId = DEFAULT_OCR_PROVIDER
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const { error } = await supabase
       .from("user_api_keys")
       .delete()
-      .eq("user_id", userId);
+      .eq("user_id", userId)
+      .eq("provider", provider);
 
     if (error) throw error;
 
@@ -124,14 +155,18 @@ export async function deleteApiKey(
 }
 
 /**
- * Check if a user has an API key stored
+ * Check if a user has a key stored for a provider (defaults to their active provider)
  */
-export async function hasApiKey(userId: string): Promise<boolean> {
+export async function hasApiKey(
+  userId: string,
+  provider?: OCRProviderId
+): Promise<boolean> {
   try {
     const { data } = await supabase
       .from("user_api_keys")
       .select("id")
       .eq("user_id", userId)
+      .eq("provider", provider ?? (await getActiveProvider(userId)))
       .single();
 
     return !!data;
@@ -139,3 +174,70 @@ export async function hasApiKey(userId: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Get the provider a user extracts text with
+ */
+export async function getActiveProvider(userId: string): Promise<OCRProviderId> {
+  try {
+    const { data } = await supabase
+      .from("user_ocr_settings")
+      .select("active_provider")
+      .eq("user_id", userId)
+      .single();
+
+    return isOCRProviderId(data?.active_provider)
+      ? data.active_provider
+      : DEFAULT_OCR_PROVIDER;
+  } catch {
+    return DEFAULT_OCR_PROVIDER;
+  }
+}
+
+/**
+ * Identify the model a user's requests go to, e.g. "deepinfra:deepseek-ai/DeepSeek-OCR"
+ * Self-hosted endpoints include their base URL, since the same model name can
+ * be served differently.
+ */
+export async function getActiveModel(userId: string): Promise<string> {
+  const provider = await getActiveProvider(userId);
+
+  try {
+    const { data } = await supabase
+      .from("user_api_keys")
+      .select("model, base_url")
+      .eq("user_id", userId)
+      .eq("provider", provider)
+      .single();
+
+    const model = `${provider}:${data?.model || getOCRProvider(provider).defaultModel}`;
+    return data?.base_url ? `${model}@${data.base_url}` : model;
+  } catch {
+    return `${provider}:${getOCRProvider(provider).defaultModel}`;
+  }
+}
+
+/**
+ * Set the provider a user extracts text with
+ */
+export async function setActiveProvider(
+  userId: string,
+  provider: OCRProviderId
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("user_ocr_settings")
+      .upsert({ user_id: userId, active_provider: provider });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving OCR provider:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to save OCR provider",
+    };
+  }
+}
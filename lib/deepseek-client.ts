@@ -2,154 +2,186 @@
 
 /**
  * DeepSeek OCR Client Wrapper
- * Handles communication with DeepInfra API for OCR processing
+ * Sends OCR requests through the /api/ocr route, which resolves the user's
+ * provider and key server-side so the key never reaches the browser
  */
 
-export interface OCRResponse {
-  text: string;
-  tokensUsed: number;
-}
+import type { OCRError, OCRPromptType, OCRResponse } from "./ocr-types";
+import type { OCRProviderId } from "./ocr-providers";
+import type { ExtractedField, TemplateField } from "./field-templates";
+import { readSSEData } from "./sse";
+import { DECODED_IMAGE_TYPES, getFileType } from "./image-decoders";
+import { MAX_FILE_SIZE, MAX_FILE_SIZE_MB } from "./upload-limits";
 
-export interface OCRError {
-  type: "invalid_key" | "rate_limit" | "network" | "timeout" | "server" | "unknown";
-  message: string;
-  retryAfter?: number; // seconds to wait before retry
-}
+export type { OCRError, OCRPromptType, OCRResponse } from "./ocr-types";
+export { OCR_PROMPT_OPTIONS, getPromptLabel } from "./ocr-types";
 
 /**
- * Prompt types for different OCR tasks
- * Based on official DeepSeek-OCR documentation
+ * @param signal - Aborts the request immediately; the result is then a "cancelled" error
+ * @param onPartial - Streams the response; called with the text so far as it arrives
  */
-export type OCRPromptType = "document" | "general" | "free" | "figure";
-
-const OCR_PROMPTS: Record<OCRPromptType, string> = {
-  // For documents - preserves layout, tables, markdown formatting (no grounding coordinates)
-  document: "Convert the document to markdown.",
-  // For general images with text (no grounding coordinates)
-  general: "OCR this image.",
-  // Plain text extraction without layout preservation
-  free: "Free OCR.",
-  // For figures and charts
-  figure: "Parse the figure.",
-};
-
 export async function extractText(
   imageBase64: string,
-  apiKey: string,
   mimeType: string = "image/jpeg",
-  promptType: OCRPromptType = "document" // Rich markdown with tables/headers
+  promptType: OCRPromptType = "document", // Rich markdown with tables/headers
+  signal?: AbortSignal,
+  onPartial?: (text: string) => void
 ): Promise<{ data?: OCRResponse; error?: OCRError }> {
+  if (signal?.aborted) {
+    return { error: CANCELLED_ERROR };
+  }
+
+  const timeoutSignal = AbortSignal.timeout(65000); // Server gives up after 60s
+
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout for larger documents
-
-    const response = await fetch(
-      "https://api.deepinfra.com/v1/openai/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: "deepseek-ai/DeepSeek-OCR",
-          messages: [
-            {
-              role: "user",
-              content: [
-                // Image MUST come before text per DeepInfra multimodal docs
-                {
-                  type: "image_url",
-                  image_url: {
-                    url: `data:${mimeType};base64,${imageBase64}`,
-                  },
-                },
-                {
-                  type: "text",
-                  text: OCR_PROMPTS[promptType],
-                },
-              ],
-            },
-          ],
-          temperature: 0.0,
-          max_tokens: 4096, // Model context is 8192, leave room for input tokens
-          frequency_penalty: 1.0, // Prevent repetition loops
-          presence_penalty: 0.5,
-        }),
-        signal: controller.signal,
-      }
-    );
-
-    clearTimeout(timeoutId);
-
-    // Handle HTTP errors
-    if (!response.ok) {
-      return { error: await handleErrorResponse(response) };
+    const response = await fetch("/api/ocr", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ imageBase64, mimeType, promptType, stream: Boolean(onPartial) }),
+      signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
+    });
+
+    // Errors before the upstream call started still come back as JSON
+    const isEventStream = response.headers.get("Content-Type")?.includes("text/event-stream");
+    if (onPartial && isEventStream && response.body) {
+      return await readOCRStream(response.body, onPartial);
     }
 
-    const data = await response.json();
+    return await parseRouteResponse<OCRResponse>(response);
+  } catch (error) {
+    if (signal?.aborted) {
+      return { error: CANCELLED_ERROR };
+    }
+    return { error: handleException(error) };
+  }
+}
 
-    // Extract text and token usage
-    const extractedText = data.choices?.[0]?.message?.content || "";
-    const tokensUsed = data.usage?.total_tokens || 0;
+const CANCELLED_ERROR: OCRError = {
+  type: "cancelled",
+  message: "Request cancelled",
+};
 
-    return {
-      data: {
-        text: extractedText,
-        tokensUsed,
+/**
+ * Fill template fields from extracted markdown through the /api/fields route
+ * @param signal - Aborts the request; the result is then a "cancelled" error
+ */
+export async function extractFields(
+  markdown: string,
+  fields: TemplateField[],
+  signal?: AbortSignal
+): Promise<{ data?: { fields: ExtractedField[]; tokensUsed: number }; error?: OCRError }> {
+  if (signal?.aborted) {
+    return { error: CANCELLED_ERROR };
+  }
+
+  const timeoutSignal = AbortSignal.timeout(65000);
+
+  try {
+    const response = await fetch("/api/fields", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
       },
-    };
+      body: JSON.stringify({ markdown, fields }),
+      signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
+    });
+
+    return await parseRouteResponse(response);
+  } catch (error) {
+    if (signal?.aborted) {
+      return { error: CANCELLED_ERROR };
+    }
+    return { error: handleException(error) };
+  }
+}
+
+/**
+ * Test provider settings through the server
+ * @param settings - Unsaved settings to test; omit to test the stored config.
+ *   A missing apiKey falls back to the stored key for the same provider.
+ */
+export async function testApiKey(settings?: {
+  provider: OCRProviderId;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+}): Promise<{ error?: OCRError }> {
+  try {
+    const response = await fetch("/api/ocr/test", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(settings ?? {}),
+    });
+
+    const { error } = await parseRouteResponse<{ valid: boolean }>(response);
+    return { error };
   } catch (error) {
     return { error: handleException(error) };
   }
 }
 
 /**
- * Handle HTTP error responses
+ * Read the /api/ocr event stream, reporting the text so far after each delta
  */
-async function handleErrorResponse(response: Response): Promise<OCRError> {
-  const status = response.status;
+async function readOCRStream(
+  body: ReadableStream<Uint8Array>,
+  onPartial: (text: string) => void
+): Promise<{ data?: OCRResponse; error?: OCRError }> {
+  let text = "";
 
+  for await (const data of readSSEData(body)) {
+    const event = JSON.parse(data) as { delta?: string; data?: OCRResponse; error?: OCRError };
+
+    if (event.error) {
+      return { error: event.error };
+    }
+    if (event.data) {
+      return { data: event.data };
+    }
+    if (event.delta) {
+      text += event.delta;
+      onPartial(text);
+    }
+  }
+
+  return {
+    error: {
+      type: "network",
+      message: "The response stream ended unexpectedly. Please try again.",
+    },
+  };
+}
+
+/**
+ * Unwrap a { data } / { error } body from the OCR routes
+ */
+async function parseRouteResponse<T>(
+  response: Response
+): Promise<{ data?: T; error?: OCRError }> {
   try {
-    const errorData = await response.json();
-    const errorMessage = errorData.error?.message || errorData.message || "Unknown error";
-
-    switch (status) {
-      case 401:
-      case 403:
-        return {
-          type: "invalid_key",
-          message: "Invalid API key. Please update your key in Settings.",
-        };
-
-      case 429:
-        const retryAfter = parseInt(response.headers.get("Retry-After") || "5", 10);
-        return {
-          type: "rate_limit",
-          message: `Rate limit reached. Please wait ${retryAfter} seconds.`,
-          retryAfter,
-        };
-
-      case 500:
-      case 502:
-      case 503:
-        return {
-          type: "server",
-          message: "DeepInfra server error. Please try again later.",
-        };
-
-      default:
-        return {
-          type: "unknown",
-          message: errorMessage,
-        };
+    const body = await response.json();
+
+    if (body.error) {
+      return { error: body.error as OCRError };
+    }
+
+    if (response.ok) {
+      return { data: body.data as T };
     }
   } catch {
-    return {
-      type: "unknown",
-      message: `HTTP ${status} error occurred`,
-    };
+    // Not JSON - e.g. a proxy or platform error page
   }
+
+  return {
+    error: {
+      type: response.status >= 500 ? "server" : "unknown",
+      message: `HTTP ${response.status} error occurred`,
+    },
+  };
 }
 
 /**
@@ -157,7 +189,7 @@ async function handleErrorResponse(response: Response): Promise<OCRError> {
  */
 function handleException(error: unknown): OCRError {
   if (error instanceof Error) {
-    if (error.name === "AbortError") {
+    if (error.name === "AbortError" || error.name === "TimeoutError") {
       return {
         type: "timeout",
         message: "Request timed out. Try a smaller file or check your connection.",
@@ -202,52 +234,129 @@ export async function fileToBase64(file: File): Promise<string> {
  * Validate file before processing
  */
 export function validateFile(file: File): { valid: boolean; error?: string } {
-  const MAX_SIZE = 10 * 1024 * 1024; // 10MB
   const ACCEPTED_TYPES = [
     "image/jpeg",
     "image/png",
     "image/webp",
     "application/pdf",
+    ...DECODED_IMAGE_TYPES,
   ];
 
-  if (!ACCEPTED_TYPES.includes(file.type)) {
+  if (!ACCEPTED_TYPES.includes(getFileType(file))) {
     return {
       valid: false,
-      error: `${file.name}: Format not supported. Use JPG, PNG, WebP, or PDF.`,
+      error: `${file.name}: Format not supported. Use JPG, PNG, WebP, TIFF, HEIC, GIF, BMP or PDF.`,
     };
   }
 
-  if (file.size > MAX_SIZE) {
+  if (file.size > MAX_FILE_SIZE) {
     return {
       valid: false,
-      error: `${file.name}: File exceeds 10MB limit (${(file.size / 1024 / 1024).toFixed(1)}MB).`,
+      error: `${file.name}: File exceeds ${MAX_FILE_SIZE_MB}MB limit (${(file.size / 1024 / 1024).toFixed(1)}MB).`,
     };
   }
 
   return { valid: true };
 }
 
+export interface RetryAttempt {
+  /** The attempt that is about to run (2 for the first retry) */
+  attempt: number;
+  maxAttempts: number;
+  /** Error from the previous attempt */
+  error: OCRError;
+  /** How long we wait before the attempt, in ms */
+  delay: number;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  initialDelay?: number;
+  maxDelay?: number;
+  /** Called before each retry, e.g. to show the attempt count or pause a worker pool */
+  onRetry?: (retry: RetryAttempt) => void;
+  /** Stops waiting between attempts; also passed to extractText */
+  signal?: AbortSignal;
+}
+
 /**
- * Retry logic with exponential backoff
+ * Whether an error is worth retrying. Bad keys and unknown errors never are.
+ */
+export function isRetryableError(error: OCRError): boolean {
+  return (
+    error.type === "rate_limit" ||
+    error.type === "timeout" ||
+    error.type === "network" ||
+    error.type === "server"
+  );
+}
+
+/**
+ * Delay before the next attempt: the provider's retryAfter for rate limits,
+ * otherwise exponential backoff with full jitter
+ */
+export function getRetryDelay(
+  error: OCRError,
+  attempt: number,
+  initialDelay: number = 1000,
+  maxDelay: number = 30000
+): number {
+  if (error.type === "rate_limit" && error.retryAfter) {
+    return error.retryAfter * 1000;
+  }
+
+  const backoff = Math.min(maxDelay, initialDelay * Math.pow(2, attempt - 1));
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Retry an OCR call with backoff while it returns a retryable error
+ * @returns The last result plus how many attempts were made
  */
 export async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  initialDelay: number = 1000
-): Promise<T> {
-  let lastError: Error;
-
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error as Error;
-      if (i < maxRetries - 1) {
-        const delay = initialDelay * Math.pow(2, i);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
+  fn: () => Promise<{ data?: T; error?: OCRError }>,
+  { maxAttempts = 4, initialDelay = 1000, maxDelay = 30000, onRetry, signal }: RetryOptions = {}
+): Promise<{ data?: T; error?: OCRError; attempts: number }> {
+  for (let attempt = 1; ; attempt++) {
+    const result = await fn();
+
+    if (!result.error || !isRetryableError(result.error) || attempt >= maxAttempts) {
+      return { ...result, attempts: attempt };
+    }
+
+    const delay = getRetryDelay(result.error, attempt, initialDelay, maxDelay);
+    onRetry?.({ attempt: attempt + 1, maxAttempts, error: result.error, delay });
+
+    const cancelled = await new Promise<boolean>((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        resolve(true);
+      };
+      // Long batches reuse one signal, so each wait takes its listener with it
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(false);
+      }, delay);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+
+    if (cancelled || signal?.aborted) {
+      return { error: CANCELLED_ERROR, attempts: attempt };
     }
   }
+}
 
-  throw lastError!;
+/**
+ * extractText with the default retry policy
+ */
+export function extractTextWithRetry(
+  imageBase64: string,
+  mimeType: string,
+  promptType: OCRPromptType,
+  options?: RetryOptions & { onPartial?: (text: string) => void }
+): Promise<{ data?: OCRResponse; error?: OCRError; attempts: number }> {
+  return retryWithBackoff(
+    () => extractText(imageBase64, mimeType, promptType, options?.signal, options?.onPartial),
+    options
+  );
 }
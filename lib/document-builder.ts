@@ -0,0 +1,152 @@
+"use client";
+
+/**
+ * Logical documents built from uploads
+ * Merging combines images and PDFs into one PDF and splitting cuts a PDF into
+ * several, so each result, export and history entry follows a document
+ * boundary rather than the files as they were uploaded.
+ */
+
+import { degrees, PDFDocument, type PDFPage } from "pdf-lib";
+import { isPDF, openPages, parsePageRanges } from "./pdf-utils";
+import { formatPageList } from "./ocr-result";
+import type { OCRPromptType } from "./ocr-types";
+import {
+  createPagePromptOverride,
+  createUploadItem,
+  getPagePromptType,
+  getSelectedPages,
+  type UploadItem,
+} from "./upload-item";
+
+/**
+ * Parse split ranges like "1-3; 4-6; 7-" into one page list per document
+ * @returns null if any range is malformed or selects no pages
+ */
+export function parseSplitRanges(input: string, pageCount: number): number[][] | null {
+  const parts = input.split(";").map((part) => part.trim()).filter(Boolean);
+  const ranges = parts.map((part) => parsePageRanges(part, pageCount));
+
+  if (ranges.length === 0 || ranges.some((range) => !range || range.length === 0)) {
+    return null;
+  }
+
+  return ranges as number[][];
+}
+
+/**
+ * Merge items, in order, into one PDF item
+ * Each item contributes its selected pages with their rotations; PDF pages are
+ * copied as-is so embedded text layers survive, images become image pages.
+ * The merged item takes the first item's settings; pages whose mode differs
+ * from it (another item's mode or a page override) keep theirs as overrides.
+ */
+export async function mergeItems(items: UploadItem[]): Promise<UploadItem> {
+  const merged = await PDFDocument.create();
+  const [first] = items;
+  // Merged page numbers per mode, for pages not in the first item's mode
+  const overrides = new Map<OCRPromptType, number[]>();
+
+  for (const item of items) {
+    const offset = merged.getPageCount();
+    let pages: number[];
+
+    if (isPDF(item.file)) {
+      const source = await PDFDocument.load(await item.file.arrayBuffer());
+      pages = getSelectedPages(item, source.getPageCount());
+      const copied = await merged.copyPages(source, pages.map((page) => page - 1));
+
+      copied.forEach((page, index) => {
+        rotatePage(page, item.rotations[pages[index]]);
+        merged.addPage(page);
+      });
+    } else {
+      pages = await appendImagePages(merged, item);
+    }
+
+    pages.forEach((page, index) => {
+      const promptType = getPagePromptType(item, page);
+      if (promptType !== first.promptType) {
+        overrides.set(promptType, [...(overrides.get(promptType) ?? []), offset + index + 1]);
+      }
+    });
+  }
+
+  const name = `${getBaseName(first.file.name)} + ${items.length - 1} more.pdf`;
+  const file = new File([(await merged.save()) as Uint8Array<ArrayBuffer>], name, { type: "application/pdf" });
+
+  return {
+    ...createUploadItem(file, first.promptType),
+    useTextLayer: first.useTextLayer,
+    pagePrompts: Array.from(overrides, ([promptType, pages]) => ({
+      ...createPagePromptOverride(promptType),
+      range: formatPageList(pages),
+    })),
+  };
+}
+
+/**
+ * Split a PDF item into one item per page range
+ * Split documents keep the item's OCR mode and page rotations.
+ */
+export async function splitItem(item: UploadItem, ranges: number[][]): Promise<UploadItem[]> {
+  const source = await PDFDocument.load(await item.file.arrayBuffer());
+  const baseName = getBaseName(item.file.name);
+  const items: UploadItem[] = [];
+
+  for (const range of ranges) {
+    const part = await PDFDocument.create();
+    const copied = await part.copyPages(source, range.map((page) => page - 1));
+
+    copied.forEach((page, index) => {
+      rotatePage(page, item.rotations[range[index]]);
+      part.addPage(page);
+    });
+
+    const name = `${baseName} (pages ${formatPageList(range).replace(/ /g, "")}).pdf`;
+    const file = new File([(await part.save()) as Uint8Array<ArrayBuffer>], name, { type: "application/pdf" });
+    items.push({ ...createUploadItem(file, item.promptType), useTextLayer: item.useTextLayer });
+  }
+
+  return items;
+}
+
+/**
+ * Add an image's selected frames as pages sized to their pixels
+ * PNGs are embedded unchanged; other formats are decoded (applying JPEG EXIF
+ * orientation, which pdf-lib would ignore) and sized like pages sent for OCR.
+ * @returns The frame numbers added, in order
+ */
+async function appendImagePages(pdf: PDFDocument, item: UploadItem): Promise<number[]> {
+  const { file } = item;
+
+  if (file.type === "image/png" && !item.rotations[1]) {
+    const image = await pdf.embedPng(await file.arrayBuffer());
+    pdf.addPage([image.width, image.height]).drawImage(image, { x: 0, y: 0 });
+    return [1];
+  }
+
+  const source = await openPages(file);
+
+  try {
+    const pageNumbers = getSelectedPages(item, source.numPages);
+    for (const pageNumber of pageNumbers) {
+      const page = await source.renderPage(pageNumber, { rotation: item.rotations[pageNumber], format: "png" });
+      const image = await pdf.embedPng(page.imageBase64);
+      pdf.addPage([image.width, image.height]).drawImage(image, { x: 0, y: 0 });
+    }
+    return pageNumbers;
+  } finally {
+    await source.destroy();
+  }
+}
+
+function rotatePage(page: PDFPage, rotation = 0) {
+  if (rotation) {
+    page.setRotation(degrees((page.getRotation().angle + rotation) % 360));
+  }
+}
+
+function getBaseName(fileName: string): string {
+  return fileName.replace(/\.[^.]*$/, "");
+}
@@ -0,0 +1,116 @@
+"use client";
+
+/**
+ * Live camera scanning
+ * Frames from the viewfinder are checked for a document; once its corners hold
+ * still the page is captured, cleaned up and added to the session. A finished
+ * session becomes one PDF, so the pages go through OCR as a single document.
+ */
+
+import { PDFDocument } from "pdf-lib";
+import { canvasToBlob } from "./image-prep";
+import { DEFAULT_PREPROCESS_OPTIONS, findDocumentCorners, preprocessImage, type Quad } from "./image-preprocess";
+
+// Long edge of the frame copies used for live edge detection
+const DETECT_EDGE = 256;
+// Corner movement, as a share of the frame diagonal, still counted as steady
+const STEADY_TOLERANCE = 0.015;
+// Movement that means a new page is being put down
+const MOVED_TOLERANCE = 0.08;
+// Resolution assumed for captured pages when sizing PDF pages
+const SCAN_DPI = 200;
+
+/**
+ * Document corners in the current video frame, in DETECT_EDGE-scaled pixels
+ * @returns The detection frame size with the corners, which are null when no page is found
+ */
+export function detectDocument(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement
+): { width: number; height: number; corners: Quad | null } {
+  const scale = DETECT_EDGE / Math.max(video.videoWidth, video.videoHeight);
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+
+  return { width: canvas.width, height: canvas.height, corners: findDocumentCorners(image) };
+}
+
+/**
+ * Largest corner movement between two detections, relative to the frame diagonal
+ */
+export function getCornerMovement(previous: Quad, next: Quad, width: number, height: number): number {
+  const diagonal = Math.hypot(width, height);
+  return Math.max(...previous.map((point, i) => Math.hypot(point.x - next[i].x, point.y - next[i].y))) / diagonal;
+}
+
+export function isSteady(movement: number): boolean {
+  return movement <= STEADY_TOLERANCE;
+}
+
+export function hasMoved(movement: number): boolean {
+  return movement >= MOVED_TOLERANCE;
+}
+
+/**
+ * Grab the current video frame at full resolution and clean it up like a reviewed photo
+ * The raw frame is kept when clean-up fails.
+ */
+export async function captureFrame(video: HTMLVideoElement, pageNumber: number): Promise<File> {
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  context.drawImage(video, 0, 0);
+
+  try {
+    const frame = new File([await canvasToBlob(canvas, "image/jpeg", 0.92)], `page-${pageNumber}.jpg`, {
+      type: "image/jpeg",
+    });
+
+    try {
+      return (await preprocessImage(frame, DEFAULT_PREPROCESS_OPTIONS)).file;
+    } catch (error) {
+      console.error("Error enhancing scanned page:", error);
+      return frame;
+    }
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+}
+
+/**
+ * Combine scanned pages, in order, into one PDF
+ */
+export async function createScannedPDF(pages: File[]): Promise<File> {
+  const pdf = await PDFDocument.create();
+
+  for (const page of pages) {
+    const bytes = await page.arrayBuffer();
+    const image = page.type === "image/png" ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes);
+    const scale = 72 / SCAN_DPI;
+    pdf.addPage([image.width * scale, image.height * scale]).drawImage(image, {
+      x: 0,
+      y: 0,
+      width: image.width * scale,
+      height: image.height * scale,
+    });
+  }
+
+  const stamp = new Date().toISOString().slice(0, 16).replace("T", " ").replace(":", ".");
+  const bytes = await pdf.save();
+  return new File([bytes as Uint8Array<ArrayBuffer>], `Scan ${stamp}.pdf`, { type: "application/pdf" });
+}
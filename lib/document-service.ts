@@ -0,0 +1,221 @@
+"use client";
+
+import { supabase } from "./supabase";
+import type { PageResult } from "./ocr-result";
+import type { OCRPromptType } from "./ocr-types";
+import { diffLines, getDiffStats, type DiffStats } from "./text-diff";
+
+export interface OCRDocument {
+  id: string;
+  user_id: string;
+  file_name: string;
+  mime_type: string | null;
+  prompt_type: OCRPromptType;
+  page_count: number;
+  pages: PageResult[];
+  text: string;
+  corrected_text: string | null; // User edits; text keeps the raw model output
+  corrected_at: string | null;
+  correction_stats: DiffStats | null;
+  excerpt: string; // Start of corrected_text ?? text, see getExcerpt
+  tokens_used: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Document row without the page data or full text, for listings
+ */
+export type OCRDocumentSummary = Omit<OCRDocument, "pages" | "text" | "corrected_text">;
+
+export interface NewOCRDocument {
+  fileName: string;
+  mimeType?: string;
+  promptType: OCRPromptType;
+  pageCount: number;
+  pages: PageResult[];
+  text: string;
+  tokensUsed: number;
+}
+
+const SUMMARY_COLUMNS =
+  "id, user_id, file_name, mime_type, prompt_type, page_count, corrected_at, correction_stats, excerpt, tokens_used, created_at, updated_at";
+
+// Matches the generated excerpt column in 006_add_document_excerpt.sql
+const EXCERPT_LENGTH = 500;
+
+/**
+ * The excerpt the database stores for a document's current text
+ * Lets a listing reflect an edit without refetching.
+ */
+export function getExcerpt(text: string): string {
+  return text.slice(0, EXCERPT_LENGTH);
+}
+
+/**
+ * Save an extraction result to the user's history
+ */
+export async function saveDocument(
+  userId: string,
+  document: NewOCRDocument
+): Promise<{ id?: string; error?: string }> {
+  try {
+    const { data, error } = await supabase
+      .from("documents")
+      .insert({
+        user_id: userId,
+        file_name: document.fileName,
+        mime_type: document.mimeType ?? null,
+        prompt_type: document.promptType,
+        page_count: document.pageCount,
+        pages: document.pages,
+        text: document.text,
+        tokens_used: document.tokensUsed,
+      })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+
+    return { id: data.id };
+  } catch (error) {
+    console.error("Error saving document:", error);
+    return {
+      error: error instanceof Error ? error.message : "Failed to save document",
+    };
+  }
+}
+
+/**
+ * List a user's documents, newest first, optionally filtered by a full-text query
+ * @param query - Web-search style query ("invoice -draft", "\"acme corp\"")
+ */
+export async function listDocuments(
+  userId: string,
+  { query, limit = 20, offset = 0 }: { query?: string; limit?: number; offset?: number } = {}
+): Promise<{ documents: OCRDocumentSummary[]; hasMore: boolean; error?: string }> {
+  try {
+    let request = supabase
+      .from("documents")
+      .select(SUMMARY_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      // Fetch one extra row to know whether there is another page
+      .range(offset, offset + limit);
+
+    if (query?.trim()) {
+      request = request.textSearch("search_vector", query.trim(), {
+        type: "websearch",
+        config: "simple",
+      });
+    }
+
+    const { data, error } = await request;
+
+    if (error) throw error;
+
+    return {
+      documents: (data ?? []).slice(0, limit) as OCRDocumentSummary[],
+      hasMore: (data?.length ?? 0) > limit,
+    };
+  } catch (error) {
+    console.error("Error listing documents:", error);
+    return {
+      documents: [],
+      hasMore: false,
+      error: error instanceof Error ? error.message : "Failed to load history",
+    };
+  }
+}
+
+/**
+ * Load a single document with its pages
+ */
+export async function getDocument(
+  userId: string,
+  id: string
+): Promise<{ document: OCRDocument | null; error?: string }> {
+  try {
+    const { data, error } = await supabase
+      .from("documents")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return { document: null };
+      }
+      throw error;
+    }
+
+    return { document: data as OCRDocument };
+  } catch (error) {
+    console.error("Error loading document:", error);
+    return {
+      document: null,
+      error: error instanceof Error ? error.message : "Failed to load document",
+    };
+  }
+}
+
+/**
+ * Store the user's corrected text alongside the original OCR output
+ * @param correctedText - null reverts to the original
+ */
+export async function saveCorrection(
+  userId: string,
+  id: string,
+  originalText: string,
+  correctedText: string | null
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("documents")
+      .update({
+        corrected_text: correctedText,
+        corrected_at: correctedText === null ? null : new Date().toISOString(),
+        correction_stats:
+          correctedText === null ? null : getDiffStats(diffLines(originalText, correctedText)),
+      })
+      .eq("user_id", userId)
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving correction:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save correction",
+    };
+  }
+}
+
+/**
+ * Delete a document from the user's history
+ */
+export async function deleteDocument(
+  userId: string,
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("documents")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting document:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete document",
+    };
+  }
+}
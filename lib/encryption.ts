@@ -1,8 +1,7 @@
-"use client";
-
 /**
- * Client-side encryption utilities using Web Crypto API
- * Used to encrypt/decrypt API keys before storing in Supabase
+ * Encryption utilities using Web Crypto API
+ * Keys are encrypted in the browser before storing in Supabase and
+ * decrypted on the server by the OCR route handlers
  */
 
 // Derive an encryption key from the user's session
@@ -0,0 +1,396 @@
+"use client";
+
+/**
+ * Export OCR results as Markdown, standalone HTML, DOCX, structured JSON or a
+ * searchable PDF
+ */
+
+import { Marked, marked, type Token, type Tokens } from "marked";
+import {
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ParagraphChild,
+} from "docx";
+import { combinePageText, sumTokens, type PageResult } from "./ocr-result";
+import type { GroundingBox } from "./grounding";
+import type { OCRPromptType } from "./ocr-types";
+
+export type ExportFormat = "markdown" | "html" | "docx" | "json" | "pdf";
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  requiresFile?: boolean; // Needs the original upload, not just the text
+}[] = [
+  { value: "markdown", label: "Markdown", extension: "md" },
+  { value: "html", label: "HTML", extension: "html" },
+  { value: "docx", label: "Word (DOCX)", extension: "docx" },
+  { value: "json", label: "JSON", extension: "json" },
+  { value: "pdf", label: "Searchable PDF", extension: "pdf", requiresFile: true },
+];
+
+/**
+ * Everything an export needs; matches what single results, batch rows and
+ * history documents already hold
+ */
+export interface ExportSource {
+  fileName: string;
+  promptType: OCRPromptType;
+  pages: PageResult[];
+  /** Pages in the original file; may exceed pages.length when some failed */
+  pageCount?: number;
+  /** Original upload, required for searchable PDFs */
+  file?: File;
+  /** Clockwise degrees per page number applied before OCR */
+  rotations?: Record<number, number>;
+}
+
+/**
+ * A content block in the JSON export. Grounded pages use the model's regions,
+ * other pages are split into top-level markdown blocks.
+ */
+export interface ExportBlock {
+  type: string;
+  text: string;
+  box?: GroundingBox;
+}
+
+/**
+ * "report.pdf" → "report.md" etc.; searchable PDFs get a "-searchable" suffix
+ * so they don't clash with the original
+ */
+export function getExportFileName(fileName: string, format: ExportFormat): string {
+  const { extension } = EXPORT_FORMATS.find((f) => f.value === format)!;
+  const suffix = format === "pdf" ? "-searchable" : "";
+  return `${fileName.replace(/\.[^.]+$/, "")}${suffix}.${extension}`;
+}
+
+/**
+ * Render a source in the given format
+ */
+export async function exportDocument(source: ExportSource, format: ExportFormat): Promise<Blob> {
+  switch (format) {
+    case "markdown":
+      return new Blob([toMarkdown(source)], { type: "text/markdown;charset=utf-8" });
+    case "html":
+      return new Blob([toHTML(source)], { type: "text/html;charset=utf-8" });
+    case "json":
+      return new Blob([toJSON(source)], { type: "application/json" });
+    case "docx":
+      return Packer.toBlob(toDocx(source));
+    case "pdf": {
+      if (!source.file) {
+        throw new Error("The original file is needed to build a searchable PDF");
+      }
+      // pdf-lib is only loaded when someone asks for a PDF
+      const { createSearchablePDF } = await import("./searchable-pdf");
+      return createSearchablePDF(source.file, source.pages, source.rotations);
+    }
+  }
+}
+
+export function toMarkdown({ pages, pageCount }: ExportSource): string {
+  return combinePageText(pages, (pageCount ?? pages.length) > 1);
+}
+
+// Tags the model uses for tables, which are kept in HTML exports
+const SAFE_HTML_TAGS = new Set(["table", "thead", "tbody", "tfoot", "tr", "th", "td", "caption", "br"]);
+const SAFE_URL_SCHEMES = ["http", "https", "mailto"];
+
+/**
+ * Markdown renderer for standalone HTML exports
+ * OCR output is untrusted: raw HTML is escaped except for table markup, which
+ * is rebuilt without attributes other than colspan/rowspan, and links or
+ * images with script URLs are reduced to their text.
+ */
+const htmlExporter = new Marked({
+  gfm: true,
+  renderer: {
+    html({ text }) {
+      return sanitizeHTML(text);
+    },
+    link({ href, tokens }) {
+      return isSafeURL(href) ? false : this.parser.parseInline(tokens);
+    },
+    image({ href, text }) {
+      return isSafeURL(href) ? false : escapeHTML(text);
+    },
+  },
+});
+
+export function toHTML(source: ExportSource): string {
+  const body = htmlExporter.parse(toMarkdown(source), { async: false });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(source.fileName)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; line-height: 1.6; max-width: 52rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+  table { border-collapse: collapse; margin: 1rem 0; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  pre { background: #f3f4f6; padding: 0.75rem; overflow-x: auto; border-radius: 0.375rem; }
+  code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+  hr { border: none; border-top: 1px solid #e5e7eb; margin: 2rem 0; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+export function toJSON(source: ExportSource): string {
+  return JSON.stringify(
+    {
+      fileName: source.fileName,
+      promptType: source.promptType,
+      pageCount: source.pageCount ?? source.pages.length,
+      tokensUsed: sumTokens(source.pages),
+      exportedAt: new Date().toISOString(),
+      pages: source.pages.map((page) => ({
+        pageNumber: page.pageNumber,
+        promptType: page.promptType,
+        tokensUsed: page.tokensUsed,
+        source: page.source ?? "ocr",
+        text: page.text,
+        blocks: getPageBlocks(page),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+function getPageBlocks(page: PageResult): ExportBlock[] {
+  if (page.regions) {
+    return page.regions.map((region) => ({ type: region.label, text: region.text, box: region.box }));
+  }
+
+  return marked
+    .lexer(page.text)
+    .filter((token) => token.type !== "space")
+    .map((token) => ({ type: token.type, text: token.raw.trim() }));
+}
+
+export function toDocx(source: ExportSource): Document {
+  const children = marked.lexer(toMarkdown(source)).flatMap(tokenToDocx);
+
+  return new Document({
+    title: source.fileName,
+    sections: [{ children }],
+  });
+}
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+/**
+ * Convert one block-level markdown token to DOCX paragraphs/tables
+ */
+function tokenToDocx(token: Token): (Paragraph | Table)[] {
+  switch (token.type) {
+    case "heading": {
+      const heading = token as Tokens.Heading;
+      return [
+        new Paragraph({
+          heading: HEADING_LEVELS[heading.depth - 1],
+          children: inlineToRuns(heading.tokens),
+        }),
+      ];
+    }
+
+    case "paragraph":
+    case "text": {
+      const paragraph = token as Tokens.Paragraph;
+      return [new Paragraph({ children: inlineToRuns(paragraph.tokens ?? []) })];
+    }
+
+    case "list": {
+      const list = token as Tokens.List;
+      return list.items.map(
+        (item, index) =>
+          new Paragraph({
+            bullet: list.ordered ? undefined : { level: 0 },
+            children: [
+              ...(list.ordered ? [new TextRun(`${Number(list.start || 1) + index}. `)] : []),
+              ...item.tokens.flatMap((child) =>
+                "tokens" in child && child.tokens ? inlineToRuns(child.tokens) : []
+              ),
+            ],
+          })
+      );
+    }
+
+    case "table": {
+      const table = token as Tokens.Table;
+      return [
+        buildTable([
+          table.header.map((cell) => cell.text),
+          ...table.rows.map((row) => row.map((cell) => cell.text)),
+        ]),
+      ];
+    }
+
+    case "code":
+      return [
+        new Paragraph({
+          children: (token as Tokens.Code).text
+            .split("\n")
+            .map((line, index) => new TextRun({ text: line, font: "Courier New", break: index > 0 ? 1 : 0 })),
+        }),
+      ];
+
+    case "blockquote":
+      return (token as Tokens.Blockquote).tokens.flatMap(tokenToDocx);
+
+    case "hr":
+      return [new Paragraph({ thematicBreak: true })];
+
+    case "html":
+      return htmlToDocx((token as Tokens.HTML).text);
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * DeepSeek-OCR often emits tables as raw HTML; keep them as real tables
+ */
+function htmlToDocx(html: string): (Paragraph | Table)[] {
+  const parsed = new DOMParser().parseFromString(html, "text/html");
+  const tables = Array.from(parsed.querySelectorAll("table"));
+
+  if (tables.length === 0) {
+    const text = parsed.body.textContent?.trim();
+    return text ? [new Paragraph(text)] : [];
+  }
+
+  return tables.map((table) =>
+    buildTable(
+      Array.from(table.querySelectorAll("tr")).map((row) =>
+        Array.from(row.querySelectorAll("th, td")).map((cell) => cell.textContent?.trim() ?? "")
+      )
+    )
+  );
+}
+
+/**
+ * Build a full-width table; the first row is styled as the header
+ */
+function buildTable(rows: string[][]): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: rows.map(
+      (cells, rowIndex) =>
+        new TableRow({
+          tableHeader: rowIndex === 0,
+          children: cells.map(
+            (text) =>
+              new TableCell({
+                children: [new Paragraph({ children: [new TextRun({ text, bold: rowIndex === 0 })] })],
+              })
+          ),
+        })
+    ),
+  });
+}
+
+/**
+ * Convert inline markdown tokens to text runs, keeping bold/italic/code
+ */
+function inlineToRuns(
+  tokens: Token[],
+  style: { bold?: boolean; italics?: boolean } = {}
+): ParagraphChild[] {
+  return tokens.flatMap((token): ParagraphChild[] => {
+    switch (token.type) {
+      case "strong":
+        return inlineToRuns((token as Tokens.Strong).tokens, { ...style, bold: true });
+      case "em":
+        return inlineToRuns((token as Tokens.Em).tokens, { ...style, italics: true });
+      case "codespan":
+        return [new TextRun({ text: (token as Tokens.Codespan).text, font: "Courier New", ...style })];
+      case "br":
+        return [new TextRun({ text: "", break: 1 })];
+      case "html":
+        // Inline tags carry no text; keep line breaks only
+        return /^<br\s*\/?>$/i.test((token as Tokens.Tag).text)
+          ? [new TextRun({ text: "", break: 1 })]
+          : [];
+      case "link":
+      case "del":
+        return inlineToRuns((token as Tokens.Link | Tokens.Del).tokens, style);
+      case "text": {
+        const text = token as Tokens.Text;
+        return text.tokens
+          ? inlineToRuns(text.tokens, style)
+          : [new TextRun({ text: text.text, ...style })];
+      }
+      default:
+        return "text" in token && typeof token.text === "string"
+          ? [new TextRun({ text: token.text, ...style })]
+          : [];
+    }
+  });
+}
+
+/**
+ * Relative URLs and web or mail links; browsers ignore whitespace and control
+ * characters inside a scheme, so those are dropped before checking it
+ */
+function isSafeURL(href: string): boolean {
+  const scheme = href.replace(/[\s\u0000-\u001f]/g, "").match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || SAFE_URL_SCHEMES.includes(scheme[1].toLowerCase());
+}
+
+/**
+ * Keep table tags (with only numeric colspan/rowspan) and escape everything else
+ */
+function sanitizeHTML(html: string): string {
+  return html
+    .split(/(<[^>]*>)/)
+    .map((part) => {
+      const tag = part.match(/^<(\/?)([a-z][a-z0-9]*)\b([^>]*)>$/i);
+      if (!tag || !SAFE_HTML_TAGS.has(tag[2].toLowerCase())) {
+        // Entities are left alone so &amp; and friends still render
+        return part.replace(/</g, "&lt;").replace(/>/g, "&gt;");
+      }
+
+      const [, closing, name, attributes] = tag;
+      const spans = closing
+        ? ""
+        : Array.from(attributes.matchAll(/\b(colspan|rowspan)\s*=\s*["']?(\d+)["']?/gi))
+            .map(([, attribute, value]) => ` ${attribute.toLowerCase()}="${value}"`)
+            .join("");
+      return `<${closing}${name.toLowerCase()}${spans}>`;
+    })
+    .join("");
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,266 @@
+"use client";
+
+/**
+ * Structured field extraction
+ * Fills a template's fields from OCR markdown with pattern, table and label
+ * rules; "model" templates add a chat-completions pass through /api/fields
+ * and keep the rule results for anything the model leaves empty.
+ */
+
+import { extractTables } from "./tables";
+import { toPlainLines } from "./ocr-result";
+import { extractFields, type OCRError } from "./deepseek-client";
+import {
+  getFieldLabels,
+  parseHintPattern,
+  type ExtractedField,
+  type FieldTemplate,
+  type FieldType,
+  type TemplateField,
+} from "./field-templates";
+
+export type FieldsRequest = (
+  markdown: string,
+  fields: TemplateField[]
+) => Promise<{ data?: { fields: ExtractedField[]; tokensUsed: number }; error?: OCRError }>;
+
+const MONTH = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?";
+
+/**
+ * First value of each type within a candidate string
+ */
+const TYPE_PATTERNS: Record<FieldType, RegExp> = {
+  text: /\S(?:.*\S)?/,
+  number: /[-+]?\d[\d,]*(?:\.\d+)?/,
+  currency: /\(?[-+]?(?:(?:[$€£¥]|USD|EUR|GBP)\s?)?\d[\d,]*(?:\.\d{1,2})?\)?(?:\s?(?:USD|EUR|GBP))?/i,
+  date: new RegExp(
+    [
+      "\\d{4}-\\d{1,2}-\\d{1,2}",
+      "\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}",
+      `\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH},?\\s+\\d{4}`,
+      `${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}`,
+    ].join("|"),
+    "i"
+  ),
+};
+
+// Confidence by how a value was found
+const CONFIDENCE = {
+  pattern: 0.95,
+  keyValueCell: 0.85,
+  headerCell: 0.8,
+  separatedLabel: 0.9,
+  inlineLabel: 0.7,
+  nextLine: 0.6,
+  // Model values that don't appear in the text are scaled down
+  unverifiedModel: 0.6,
+};
+
+/**
+ * Fill fields with rules only; runs entirely in the browser
+ */
+export function extractFieldsWithRules(markdown: string, fields: TemplateField[]): ExtractedField[] {
+  const lines = toPlainLines(markdown);
+  const tables = extractTables([{ pageNumber: 1, text: markdown, promptType: "document", tokensUsed: 0 }]);
+  const grids = tables.map((table) => [table.header, ...table.rows]);
+
+  return fields.map((field) => {
+    const candidates: ExtractedField[] = [];
+    const pattern = field.hint ? parseHintPattern(field.hint) : null;
+
+    if (pattern) {
+      const match = pattern.exec(lines.join("\n"));
+      const value = match ? cleanValue(match[1] ?? match[0]) : "";
+      if (value) {
+        candidates.push({ name: field.name, value, confidence: CONFIDENCE.pattern, source: "pattern" });
+      }
+    }
+
+    for (const label of getFieldLabels(field)) {
+      candidates.push(...findInTables(grids, label, field), ...findInLines(lines, label, field));
+    }
+
+    // Highest confidence wins; earlier matches break ties
+    const best = candidates.reduce<ExtractedField | null>(
+      (current, candidate) => (!current || candidate.confidence > current.confidence ? candidate : current),
+      null
+    );
+
+    return best ?? { name: field.name, value: null, confidence: 0, source: "none" };
+  });
+}
+
+/**
+ * Fill a template's fields from markdown
+ * @param request - Model pass for "model" templates, e.g. wrapped in a retry or worker pool
+ */
+export async function runTemplate(
+  template: Pick<FieldTemplate, "method" | "fields">,
+  markdown: string,
+  request: FieldsRequest = extractFields
+): Promise<{ data?: ExtractedField[]; tokensUsed: number; error?: OCRError }> {
+  const ruleFields = extractFieldsWithRules(markdown, template.fields);
+
+  if (template.method === "rules") {
+    return { data: ruleFields, tokensUsed: 0 };
+  }
+
+  const { data, error } = await request(markdown, template.fields);
+
+  if (error || !data) {
+    return {
+      tokensUsed: 0,
+      error: error ?? { type: "unknown", message: "No fields were returned" },
+    };
+  }
+
+  const haystack = normalize(markdown);
+
+  return {
+    data: ruleFields.map((ruleField, index) => {
+      const modelField = data.fields[index];
+
+      if (!modelField?.value) {
+        return ruleField;
+      }
+
+      // Values with no letters or digits ("-", "…") can't be found in the text
+      const value = normalize(modelField.value);
+      const verified = value !== "" && haystack.includes(value);
+      const agrees = verified && ruleField.value !== null && normalize(ruleField.value) === value;
+
+      return {
+        ...modelField,
+        confidence: agrees
+          ? Math.max(modelField.confidence, ruleField.confidence)
+          : verified
+            ? modelField.confidence
+            : modelField.confidence * CONFIDENCE.unverifiedModel,
+      };
+    }),
+    tokensUsed: data.tokensUsed,
+  };
+}
+
+/**
+ * One CSV row per file: values first, then a confidence column per field
+ */
+export function fieldsToRows(
+  fields: TemplateField[],
+  results: { fileName: string; fields?: ExtractedField[] }[]
+): string[][] {
+  return [
+    ["File", ...fields.map((field) => field.name), ...fields.map((field) => `${field.name} confidence`)],
+    ...results.map((result) => {
+      const byName = new Map(result.fields?.map((field) => [field.name, field]));
+      return [
+        result.fileName,
+        ...fields.map((field) => byName.get(field.name)?.value ?? ""),
+        ...fields.map((field) => {
+          const extracted = byName.get(field.name);
+          return extracted?.value ? extracted.confidence.toFixed(2) : "";
+        }),
+      ];
+    }),
+  ];
+}
+
+/**
+ * 0.876 → "88%"
+ */
+export function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+/**
+ * Two-column rows ("Invoice No | 42") and header cells ("Total" column)
+ */
+function findInTables(grids: string[][][], label: string, field: TemplateField): ExtractedField[] {
+  const target = normalize(label);
+  const candidates: ExtractedField[] = [];
+
+  for (const grid of grids) {
+    for (const row of grid) {
+      row.forEach((cell, column) => {
+        if (column < row.length - 1 && normalize(cell) === target) {
+          const value = matchType(row[column + 1], field.type);
+          if (value) {
+            candidates.push({ name: field.name, value, confidence: CONFIDENCE.keyValueCell, source: "table" });
+          }
+        }
+      });
+    }
+
+    const column = grid[0].findIndex((cell) => normalize(cell) === target);
+    if (column !== -1) {
+      const value = grid
+        .slice(1)
+        .map((row) => matchType(row[column] ?? "", field.type))
+        .find(Boolean);
+      if (value) {
+        candidates.push({ name: field.name, value, confidence: CONFIDENCE.headerCell, source: "table" });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * "Invoice No: 42" (or "Invoice No 42", or the value on the next line)
+ */
+function findInLines(lines: string[], label: string, field: TemplateField): ExtractedField[] {
+  const pattern = new RegExp(
+    `(?:^|[^\\p{L}\\p{N}])${escapeRegExp(label)}(?![\\p{L}\\p{N}])\\s*([:：#.=–-]*)\\s*(.*)$`,
+    "iu"
+  );
+  const candidates: ExtractedField[] = [];
+
+  lines.forEach((line, index) => {
+    const match = pattern.exec(line);
+    if (!match) return;
+
+    const [, separator, rest] = match;
+    const value = matchType(rest, field.type);
+
+    if (value) {
+      candidates.push({
+        name: field.name,
+        value,
+        confidence: separator ? CONFIDENCE.separatedLabel : CONFIDENCE.inlineLabel,
+        source: "label",
+      });
+    } else if (!rest.trim() && index + 1 < lines.length) {
+      const next = matchType(lines[index + 1], field.type);
+      if (next) {
+        candidates.push({ name: field.name, value: next, confidence: CONFIDENCE.nextLine, source: "label" });
+      }
+    }
+  });
+
+  return candidates;
+}
+
+function matchType(candidate: string, type: FieldType): string | null {
+  // Text values stop at the next column of a wide line
+  const text = type === "text" ? candidate.split(/\s{2,}|\s\|\s/)[0] : candidate;
+  const match = TYPE_PATTERNS[type].exec(text);
+  const value = match ? cleanValue(match[0]) : "";
+
+  return value && value.length <= 200 ? value : null;
+}
+
+function cleanValue(value: string): string {
+  return value.trim().replace(/[\s,;]+$/, "");
+}
+
+/**
+ * Case- and punctuation-insensitive form used to compare labels and values
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,179 @@
+/**
+ * Field templates for structured extraction
+ * Shared by the browser (rules, UI) and the /api/fields route (model prompt
+ * and response parsing).
+ */
+
+export type FieldType = "text" | "number" | "date" | "currency";
+
+/**
+ * "rules" matches labels, tables and patterns in the markdown; "model" asks
+ * the provider in an extra chat-completions pass and falls back to the rules
+ */
+export type ExtractionMethod = "rules" | "model";
+
+export interface TemplateField {
+  name: string;
+  type: FieldType;
+  /** Alternative labels, comma separated, or a /regex/ whose first group is the value */
+  hint?: string;
+}
+
+export interface FieldTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  method: ExtractionMethod;
+  fields: TemplateField[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExtractedField {
+  name: string;
+  value: string | null;
+  /** 0-1 */
+  confidence: number;
+  source: "pattern" | "label" | "table" | "model" | "none";
+}
+
+export const FIELD_TYPE_OPTIONS: { value: FieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "currency", label: "Amount" },
+];
+
+export const MAX_TEMPLATE_FIELDS = 30;
+
+// Keeps the prompt well inside the model's context window
+const MAX_PROMPT_DOCUMENT_LENGTH = 12000;
+
+export function isFieldType(value: unknown): value is FieldType {
+  return FIELD_TYPE_OPTIONS.some((option) => option.value === value);
+}
+
+/**
+ * Check fields coming from a request body or the editor
+ * @returns An error message, or null when the fields are usable
+ */
+export function validateTemplateFields(fields: unknown): string | null {
+  if (!Array.isArray(fields) || fields.length === 0) {
+    return "Add at least one field.";
+  }
+  if (fields.length > MAX_TEMPLATE_FIELDS) {
+    return `Templates can have at most ${MAX_TEMPLATE_FIELDS} fields.`;
+  }
+
+  const names = new Set<string>();
+  for (const field of fields as Partial<TemplateField>[]) {
+    const name = typeof field?.name === "string" ? field.name.trim() : "";
+
+    if (!name) {
+      return "Every field needs a name.";
+    }
+    if (names.has(name.toLowerCase())) {
+      return `Field "${name}" is listed twice.`;
+    }
+    if (!isFieldType(field.type)) {
+      return `Field "${name}" has an unknown type.`;
+    }
+    if (field.hint !== undefined && typeof field.hint !== "string") {
+      return `Field "${name}" has an invalid hint.`;
+    }
+    if (field.hint && parseHintPattern(field.hint) === undefined) {
+      return `Field "${name}" has an invalid pattern.`;
+    }
+
+    names.add(name.toLowerCase());
+  }
+
+  return null;
+}
+
+/**
+ * A hint written as /regex/flags
+ * @returns The pattern, null if the hint is a label list, undefined if the regex is invalid
+ */
+export function parseHintPattern(hint: string): RegExp | null | undefined {
+  const match = /^\/(.+)\/([a-z]*)$/.exec(hint.trim());
+  if (!match) return null;
+
+  try {
+    return new RegExp(match[1], match[2].replace(/g/g, ""));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Labels to look for: the field name plus any comma-separated hint labels
+ */
+export function getFieldLabels(field: TemplateField): string[] {
+  const hints = field.hint && parseHintPattern(field.hint) === null ? field.hint.split(",") : [];
+  // "invoice_number" should also match "Invoice Number"
+  return [field.name, field.name.replace(/[_-]+/g, " "), ...hints]
+    .map((label) => label.trim())
+    .filter((label, index, labels) => label && labels.indexOf(label) === index);
+}
+
+/**
+ * Prompt for the model pass; asks for a JSON object keyed by field name
+ */
+export function buildFieldsPrompt(markdown: string, fields: TemplateField[]): string {
+  const fieldList = fields
+    .map((field) => {
+      const hint = field.hint && parseHintPattern(field.hint) === null ? ` - also labelled ${field.hint}` : "";
+      return `- "${field.name}" (${field.type})${hint}`;
+    })
+    .join("\n");
+
+  return [
+    "Extract these fields from the document below.",
+    fieldList,
+    'Reply with only a JSON object mapping each field name to {"value": string or null, "confidence": number from 0 to 1}. Copy values exactly as written in the document. Use null when a field is not present.',
+    "Document:",
+    markdown.slice(0, MAX_PROMPT_DOCUMENT_LENGTH),
+  ].join("\n\n");
+}
+
+/**
+ * Read the model's JSON reply, tolerating code fences and surrounding prose
+ * @returns null when the reply holds no usable JSON object
+ */
+export function parseModelFields(reply: string, fields: TemplateField[]): ExtractedField[] | null {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== "object") return null;
+
+  return fields.map((field) => {
+    const entry = parsed[field.name];
+    // Accept bare values as well as { value, confidence }
+    const { value, confidence } =
+      entry && typeof entry === "object"
+        ? (entry as { value?: unknown; confidence?: unknown })
+        : { value: entry, confidence: undefined };
+
+    const text = typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+
+    if (!text) {
+      return { name: field.name, value: null, confidence: 0, source: "none" };
+    }
+
+    return {
+      name: field.name,
+      value: text,
+      confidence: typeof confidence === "number" ? Math.min(1, Math.max(0, confidence)) : 0.7,
+      source: "model",
+    };
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * DeepSeek-OCR grounding output parser
+ * Grounding prompts return blocks tagged as
+ *   <|ref|>label<|/ref|><|det|>[[x1, y1, x2, y2]]<|/det|>
+ *   block content...
+ * with coordinates normalised to a 0-999 grid over the input image.
+ */
+
+const COORDINATE_SCALE = 999;
+
+const GROUNDING_TAG_PATTERN =
+  /<\|ref\|>([\s\S]*?)<\|\/ref\|>\s*<\|det\|>([\s\S]*?)<\|\/det\|>/g;
+
+/**
+ * Bounding box as fractions (0-1) of the page width/height
+ */
+export interface GroundingBox {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface GroundingRegion {
+  id: string;
+  page: number;
+  label: string; // Block type reported by the model (title, text, table, image...)
+  text: string; // Markdown content of the block, without tags
+  box: GroundingBox;
+}
+
+export interface GroundedText {
+  text: string;
+  regions: GroundingRegion[];
+}
+
+/**
+ * Parse a det payload like "[[10, 20, 300, 400]]" into a single box.
+ * Multiple boxes for one reference are merged into their union.
+ */
+function parseBox(det: string): GroundingBox | null {
+  const numbers = det.match(/-?\d+(\.\d+)?/g)?.map(Number) ?? [];
+  if (numbers.length < 4) {
+    return null;
+  }
+
+  let x1 = Infinity;
+  let y1 = Infinity;
+  let x2 = -Infinity;
+  let y2 = -Infinity;
+
+  for (let i = 0; i + 3 < numbers.length; i += 4) {
+    x1 = Math.min(x1, numbers[i]);
+    y1 = Math.min(y1, numbers[i + 1]);
+    x2 = Math.max(x2, numbers[i + 2]);
+    y2 = Math.max(y2, numbers[i + 3]);
+  }
+
+  const clamp = (value: number) => Math.min(Math.max(value / COORDINATE_SCALE, 0), 1);
+
+  return { x1: clamp(x1), y1: clamp(y1), x2: clamp(x2), y2: clamp(y2) };
+}
+
+/**
+ * Split grounding output into clean markdown and typed regions
+ * @param raw - Model output containing <|ref|>/<|det|> tags
+ * @param page - 1-based page number the output belongs to
+ */
+export function parseGroundedText(raw: string, page: number = 1): GroundedText {
+  const matches = Array.from(raw.matchAll(GROUNDING_TAG_PATTERN));
+
+  if (matches.length === 0) {
+    return { text: raw.trim(), regions: [] };
+  }
+
+  const regions: GroundingRegion[] = [];
+  const blocks: string[] = [];
+
+  // Text before the first tag has no location but should not be dropped
+  const leading = raw.slice(0, matches[0].index).trim();
+  if (leading) {
+    blocks.push(leading);
+  }
+
+  matches.forEach((match, index) => {
+    const contentStart = match.index! + match[0].length;
+    const contentEnd = matches[index + 1]?.index ?? raw.length;
+    const content = raw.slice(contentStart, contentEnd).trim();
+    const ref = match[1].trim();
+    const box = parseBox(match[2]);
+
+    // "Locate" style prompts put the text itself in the ref tag
+    const text = content || (isBlockLabel(ref) ? "" : ref);
+
+    if (text) {
+      blocks.push(text);
+    }
+
+    if (box) {
+      regions.push({
+        id: `${page}-${index}`,
+        page,
+        label: content ? ref : isBlockLabel(ref) ? ref : "text",
+        text,
+        box,
+      });
+    }
+  });
+
+  return { text: blocks.join("\n\n"), regions };
+}
+
+const BLOCK_LABELS = new Set([
+  "title",
+  "sub_title",
+  "text",
+  "table",
+  "table_caption",
+  "table_footnote",
+  "image",
+  "image_caption",
+  "figure",
+  "equation",
+  "formula",
+  "list",
+  "header",
+  "footer",
+  "page_number",
+]);
+
+function isBlockLabel(ref: string): boolean {
+  return BLOCK_LABELS.has(ref.toLowerCase());
+}
@@ -0,0 +1,275 @@
+"use client";
+
+/**
+ * Decoders for image formats the model doesn't take directly
+ * TIFF, GIF, HEIC and BMP are decoded in the browser and exposed as a
+ * PDFSource, one page per frame, so they go through the same per-page
+ * pipeline as PDFs. Multi-page scanner TIFFs and animated GIFs are split
+ * into pages; HEIC and BMP are single pages.
+ */
+
+import * as UTIF from "utif";
+import type { OpenPDFOptions, PDFSource } from "./pdf-utils";
+import { canvasToObjectURL, MAX_LONG_EDGE, prepareCanvas } from "./image-prep";
+
+export const DECODED_IMAGE_TYPES = ["image/tiff", "image/gif", "image/heic", "image/heif", "image/bmp"];
+
+// Browsers often leave file.type empty for HEIC and sometimes for TIFF
+const EXTENSION_TYPES: Record<string, string> = {
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  gif: "image/gif",
+  heic: "image/heic",
+  heif: "image/heif",
+  bmp: "image/bmp",
+};
+
+/**
+ * Frames of a decoded image, drawn one at a time
+ */
+interface FrameDecoder {
+  frameCount: number;
+  decode(index: number): Promise<ImageBitmap>;
+  close(): void;
+}
+
+/**
+ * MIME type of a file, falling back to its extension when the browser left it empty
+ */
+export function getFileType(file: File): string {
+  if (file.type) {
+    return file.type;
+  }
+
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_TYPES[extension] ?? "";
+}
+
+/**
+ * Check if a file needs decoding before it can be sent for OCR
+ */
+export function isDecodedImage(file: File): boolean {
+  return DECODED_IMAGE_TYPES.includes(getFileType(file));
+}
+
+/**
+ * Open a TIFF, GIF, HEIC or BMP as pages
+ * Frames are decoded on demand and only the page being rendered is held as a bitmap.
+ */
+export async function openImageFrames(file: File, { signal, onProgress }: OpenPDFOptions = {}): Promise<PDFSource> {
+  const frames = await createFrameDecoder(file);
+
+  const decodeFrame = async (pageNumber: number) => {
+    if (signal?.aborted) {
+      throw new DOMException("Image conversion cancelled", "AbortError");
+    }
+    if (pageNumber < 1 || pageNumber > frames.frameCount) {
+      throw new Error(`Page ${pageNumber} does not exist`);
+    }
+    return frames.decode(pageNumber - 1);
+  };
+
+  return {
+    numPages: frames.frameCount,
+
+    async renderPage(pageNumber, { scale, rotation = 0, format = "auto", withPreview = false } = {}) {
+      onProgress?.({ stage: "rendering", pageNumber });
+      const bitmap = await decodeFrame(pageNumber);
+      const canvas = drawFrame(
+        bitmap,
+        scale ?? Math.min(1, MAX_LONG_EDGE / Math.max(bitmap.width, bitmap.height)),
+        rotation
+      );
+      bitmap.close();
+
+      try {
+        onProgress?.({ stage: "encoding", pageNumber });
+        const image = await prepareCanvas(canvas, format);
+        const previewUrl = withPreview ? await canvasToObjectURL(canvas, 0.85) : undefined;
+
+        return {
+          pageNumber,
+          imageBase64: image.base64,
+          width: image.width,
+          height: image.height,
+          mimeType: image.mimeType,
+          bytes: image.bytes,
+          hash: image.hash,
+          previewUrl,
+        };
+      } finally {
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    },
+
+    async renderThumbnail(pageNumber, width) {
+      const bitmap = await decodeFrame(pageNumber);
+      const canvas = drawFrame(bitmap, width / bitmap.width, 0);
+      bitmap.close();
+
+      try {
+        return await canvasToObjectURL(canvas, 0.7);
+      } finally {
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    },
+
+    // Decoded images have no text layer
+    async readText() {
+      return { kind: "image" };
+    },
+
+    async destroy() {
+      frames.close();
+    },
+  };
+}
+
+async function createFrameDecoder(file: File): Promise<FrameDecoder> {
+  const type = getFileType(file);
+
+  if (type === "image/tiff") {
+    return createTiffDecoder(file);
+  }
+  if (type === "image/gif" && typeof ImageDecoder !== "undefined") {
+    return createAnimatedDecoder(file, type);
+  }
+  if (type === "image/heic" || type === "image/heif") {
+    return createHeicDecoder(file);
+  }
+
+  // BMP, and GIF's first frame where WebCodecs is missing, decode natively
+  return createSingleFrameDecoder(file);
+}
+
+/**
+ * Multi-page TIFF via UTIF; each page is decompressed only when drawn
+ */
+async function createTiffDecoder(file: File): Promise<FrameDecoder> {
+  const buffer = await file.arrayBuffer();
+  // Directories without a width are EXIF or GPS blocks, not pages
+  const pages = UTIF.decode(buffer).filter((ifd) => ifd["t256"] !== undefined);
+
+  if (pages.length === 0) {
+    throw new Error(`${file.name} has no readable pages`);
+  }
+
+  return {
+    frameCount: pages.length,
+    async decode(index) {
+      const ifd = pages[index];
+      UTIF.decodeImage(buffer, ifd);
+      const rgba = UTIF.toRGBA8(ifd);
+      // Drop the raw strip data; it is decoded again if the page is drawn twice
+      ifd.data = new Uint8Array(0);
+      const pixels = new Uint8ClampedArray(rgba.buffer as ArrayBuffer, rgba.byteOffset, rgba.length);
+      return createImageBitmap(new ImageData(pixels, ifd.width, ifd.height));
+    },
+    close() {
+      pages.length = 0;
+    },
+  };
+}
+
+/**
+ * Every frame of an animated image via WebCodecs, composited as displayed
+ */
+async function createAnimatedDecoder(file: File, type: string): Promise<FrameDecoder> {
+  const decoder = new ImageDecoder({ data: file.stream(), type });
+  await decoder.tracks.ready;
+  // The frame count is only final once the whole stream has been read
+  await decoder.completed;
+
+  return {
+    frameCount: decoder.tracks.selectedTrack?.frameCount ?? 1,
+    async decode(index) {
+      const { image } = await decoder.decode({ frameIndex: index });
+      try {
+        return await createImageBitmap(image);
+      } finally {
+        image.close();
+      }
+    },
+    close() {
+      decoder.close();
+    },
+  };
+}
+
+/**
+ * Safari decodes HEIC natively; other browsers convert it with libheif (loaded on first use)
+ * Conversion is deferred to the first draw so counting pages stays cheap.
+ */
+function createHeicDecoder(file: File): FrameDecoder {
+  let source: Blob = file;
+  let converted = false;
+
+  return {
+    frameCount: 1,
+    async decode() {
+      try {
+        return await createImageBitmap(source, { imageOrientation: "from-image" });
+      } catch (error) {
+        if (converted) throw error;
+      }
+
+      const { default: heic2any } = await import("heic2any");
+      const result = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.92 });
+      source = Array.isArray(result) ? result[0] : result;
+      converted = true;
+      return createImageBitmap(source, { imageOrientation: "from-image" });
+    },
+    close() {},
+  };
+}
+
+/**
+ * Formats the browser can decode itself, as one page
+ * The bitmap is decoded up front so unsupported files fail when opened.
+ */
+async function createSingleFrameDecoder(blob: Blob): Promise<FrameDecoder> {
+  let bitmap: ImageBitmap | null = await createImageBitmap(blob, { imageOrientation: "from-image" });
+
+  return {
+    frameCount: 1,
+    async decode() {
+      // Handed out once; later draws (thumbnail then OCR) decode again
+      const frame = bitmap ?? (await createImageBitmap(blob, { imageOrientation: "from-image" }));
+      bitmap = null;
+      return frame;
+    },
+    close() {
+      bitmap?.close();
+      bitmap = null;
+    },
+  };
+}
+
+/**
+ * Draw a frame scaled and rotated clockwise onto a new canvas
+ */
+export function drawFrame(bitmap: ImageBitmap, scale: number, rotation: number): HTMLCanvasElement {
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const sideways = rotation % 180 !== 0;
+  const canvas = document.createElement("canvas");
+  canvas.width = sideways ? height : width;
+  canvas.height = sideways ? width : height;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  // Transparent GIF and TIFF pixels would otherwise encode as black
+  context.fillStyle = "#fff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate((rotation * Math.PI) / 180);
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, -width / 2, -height / 2, width, height);
+
+  return canvas;
+}
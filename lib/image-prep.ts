@@ -0,0 +1,273 @@
+/**
+ * Image preparation for OCR input
+ * Pages and photos are sized to what DeepSeek-OCR actually uses and encoded by
+ * content: PNG keeps rendered text and line art crisp, WebP/JPEG keeps photos
+ * and scans small. Works with DOM canvases and with OffscreenCanvas in the
+ * PDF render worker.
+ */
+
+/**
+ * Longest side sent to the model, in pixels
+ * The model resizes to 1024-1280px (tiling larger pages in its dynamic mode),
+ * so anything beyond this only adds upload time and request latency.
+ */
+export const MAX_LONG_EDGE = 1600;
+
+// PDF render scale bounds: small pages are enlarged for legibility, posters shrunk
+const MIN_RENDER_SCALE = 0.5;
+const MAX_RENDER_SCALE = 3;
+
+// Images at or under MAX_LONG_EDGE and this size are sent untouched
+const MAX_PASSTHROUGH_BYTES = 1.5 * 1024 * 1024;
+
+const PHOTO_QUALITY = 0.85;
+
+// More distinct colours than this in a thumbnail means photographic content
+const PHOTO_COLOR_THRESHOLD = 128;
+
+export type ImageFormat = "auto" | "png";
+
+export interface PreparedImage {
+  base64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  /** Encoded size, before base64 */
+  bytes: number;
+  /** SHA-256 of the encoded image, identifying it in the result cache */
+  hash: string;
+}
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * PDF render scale that brings a page's long edge to MAX_LONG_EDGE pixels
+ * @param width - Page width in PDF points (scale 1)
+ * @param height - Page height in PDF points (scale 1)
+ */
+export function getRenderScale(width: number, height: number): number {
+  const scale = MAX_LONG_EDGE / Math.max(width, height, 1);
+  return Math.min(MAX_RENDER_SCALE, Math.max(MIN_RENDER_SCALE, scale));
+}
+
+/**
+ * Encode a rendered canvas for OCR
+ * @param format - "png" forces lossless output, e.g. for embedding in PDFs
+ */
+export async function prepareCanvas(canvas: AnyCanvas, format: ImageFormat = "auto"): Promise<PreparedImage> {
+  const mimeType = format === "png" || !isPhotographic(canvas) ? "image/png" : "image/webp";
+  let blob = await canvasToBlob(canvas, mimeType, PHOTO_QUALITY);
+
+  // Safari can't encode WebP and silently returns PNG
+  if (mimeType === "image/webp" && blob.type !== mimeType) {
+    blob = await canvasToBlob(canvas, "image/jpeg", PHOTO_QUALITY);
+  }
+
+  return {
+    base64: await blobToBase64(blob),
+    mimeType: blob.type,
+    width: canvas.width,
+    height: canvas.height,
+    bytes: blob.size,
+    hash: await hashBlob(blob),
+  };
+}
+
+/**
+ * Downscale and re-encode an uploaded image when it's larger than the model needs
+ * Camera photos are decoded with their EXIF orientation applied; rotated
+ * JPEGs are always re-encoded, since the model ignores the EXIF tag.
+ */
+export async function prepareImage(file: File): Promise<PreparedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+
+  try {
+    const scale = Math.min(1, MAX_LONG_EDGE / Math.max(bitmap.width, bitmap.height));
+
+    if (scale === 1 && file.size <= MAX_PASSTHROUGH_BYTES && (await getExifOrientation(file)) === 1) {
+      return {
+        base64: await blobToBase64(file),
+        mimeType: file.type,
+        width: bitmap.width,
+        height: bitmap.height,
+        bytes: file.size,
+        hash: await hashBlob(file),
+      };
+    }
+
+    const canvas = createCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    const context = canvas.getContext("2d") as CanvasRenderingContext2D | null;
+
+    if (!context) {
+      throw new Error("Failed to get canvas context");
+    }
+
+    context.imageSmoothingQuality = "high";
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    try {
+      return await prepareCanvas(canvas);
+    } finally {
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Base64 body of a blob, without the data: URL prefix
+ */
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(new Error("Failed to read image"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Hex SHA-256 of a blob's bytes
+ */
+export async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Compressed JPEG copy of a canvas for previews, kept outside the JS heap
+ */
+export async function canvasToObjectURL(canvas: AnyCanvas, quality: number): Promise<string> {
+  return URL.createObjectURL(await canvasToBlob(canvas, "image/jpeg", quality));
+}
+
+/**
+ * Human-readable size, e.g. "420 KB" or "1.5 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Count distinct colours in a small copy of the canvas
+ * Rendered text is a handful of greys; photos and scans have hundreds.
+ */
+function isPhotographic(canvas: AnyCanvas): boolean {
+  const sample = createCanvas(48, 48);
+  const context = sample.getContext("2d", { willReadFrequently: true }) as CanvasRenderingContext2D | null;
+
+  if (!context) {
+    return false;
+  }
+
+  context.drawImage(canvas, 0, 0, sample.width, sample.height);
+  const { data } = context.getImageData(0, 0, sample.width, sample.height);
+  const colors = new Set<number>();
+
+  for (let i = 0; i < data.length; i += 4) {
+    // 4 bits per channel so anti-aliasing noise doesn't count as colour
+    colors.add(((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4));
+    if (colors.size > PHOTO_COLOR_THRESHOLD) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * EXIF orientation of a JPEG (1 = upright), read from its APP1 segment
+ * Other formats, and JPEGs without the tag, count as upright.
+ */
+async function getExifOrientation(file: File): Promise<number> {
+  if (file.type !== "image/jpeg") {
+    return 1;
+  }
+
+  // The Exif segment sits right after the SOI marker, well inside 64KB
+  const view = new DataView(await file.slice(0, 64 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return 1;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return readTiffOrientation(view, offset + 10);
+    }
+    // Image data follows the start-of-scan marker; stop at anything that isn't a marker
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+      return 1;
+    }
+    offset += 2 + length;
+  }
+
+  return 1;
+}
+
+/**
+ * Find the Orientation tag (0x0112) in the first IFD of a TIFF header
+ */
+function readTiffOrientation(view: DataView, tiffStart: number): number {
+  if (tiffStart + 8 > view.byteLength) {
+    return 1;
+  }
+
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (ifdStart + 2 > view.byteLength) {
+    return 1;
+  }
+
+  const entries = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) {
+      break;
+    }
+    if (view.getUint16(entry, littleEndian) === 0x0112) {
+      return view.getUint16(entry + 8, littleEndian);
+    }
+  }
+
+  return 1;
+}
+
+function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Encode a DOM or offscreen canvas
+ */
+export function canvasToBlob(canvas: AnyCanvas, type: string, quality: number): Promise<Blob> {
+  if ("convertToBlob" in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      type,
+      quality
+    );
+  });
+}
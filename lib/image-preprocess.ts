@@ -0,0 +1,641 @@
+"use client";
+
+/**
+ * Photo clean-up before OCR
+ * Camera shots of documents are cropped to the page and flattened, straightened,
+ * and optionally converted to grayscale or black and white. Everything runs on
+ * canvas pixel data in the browser; detection works on a small copy and the
+ * corrections are applied at full working resolution.
+ */
+
+import { canvasToBlob } from "./image-prep";
+
+export type ColorMode = "color" | "grayscale" | "binarize";
+
+export interface PreprocessOptions {
+  /** Find the document's edges and correct its perspective */
+  crop: boolean;
+  /** Level slightly rotated text lines */
+  deskew: boolean;
+  /** Extra clockwise rotation in degrees (multiple of 90) */
+  rotation: number;
+  colorMode: ColorMode;
+  /** Stretch levels so faded print and grey paper become black on white */
+  contrast: boolean;
+  /** 3×3 median filter for sensor noise and paper texture */
+  denoise: boolean;
+}
+
+export interface PreprocessResult {
+  file: File;
+  /** Whether document edges were found and the photo was cropped to them */
+  cropped: boolean;
+  /** Skew corrected, in degrees */
+  skewAngle: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  crop: true,
+  deskew: true,
+  rotation: 0,
+  colorMode: "grayscale",
+  contrast: true,
+  denoise: false,
+};
+
+export const COLOR_MODE_OPTIONS: { value: ColorMode; label: string }[] = [
+  { value: "color", label: "Color" },
+  { value: "grayscale", label: "Grayscale" },
+  { value: "binarize", label: "Black & white" },
+];
+
+// Photos are processed at up to this long edge; OCR input is capped lower anyway
+const MAX_WORKING_EDGE = 2400;
+// Long edge of the copies used for edge and skew detection
+const DETECT_EDGE = 256;
+const SKEW_EDGE = 800;
+// Largest skew searched for, in degrees; beyond this the rotate button is the fix
+const MAX_SKEW = 15;
+// Skews smaller than this are left alone
+const MIN_SKEW = 0.3;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Document corners: top-left, top-right, bottom-right, bottom-left */
+export type Quad = [Point, Point, Point, Point];
+
+/**
+ * Run the enabled steps over a photo and return the result as a new file
+ * Black and white output is PNG, which stays small and lossless; the rest is JPEG.
+ */
+export async function preprocessImage(file: File, options: PreprocessOptions): Promise<PreprocessResult> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  let image: ImageData;
+
+  try {
+    const scale = Math.min(1, MAX_WORKING_EDGE / Math.max(bitmap.width, bitmap.height));
+    image = getImageData(bitmap, Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  } finally {
+    bitmap.close();
+  }
+
+  let cropped = false;
+  if (options.crop) {
+    const corners = findDocumentCorners(image);
+    if (corners) {
+      image = warpPerspective(image, corners);
+      cropped = true;
+    }
+  }
+
+  let skewAngle = 0;
+  if (options.deskew) {
+    const angle = detectSkew(image);
+    if (Math.abs(angle) >= MIN_SKEW) {
+      image = rotateImage(image, -angle);
+      skewAngle = angle;
+    }
+  }
+
+  if (options.rotation % 360) {
+    image = rotateImage(image, options.rotation % 360);
+  }
+
+  if (options.colorMode !== "color") {
+    toGrayscale(image);
+  }
+  if (options.denoise) {
+    image = medianFilter(image, options.colorMode !== "color");
+  }
+  if (options.contrast) {
+    stretchContrast(image);
+  }
+  if (options.colorMode === "binarize") {
+    binarize(image);
+  }
+
+  const type = options.colorMode === "binarize" ? "image/png" : "image/jpeg";
+  const canvas = toCanvas(image);
+
+  try {
+    const blob = await canvasToBlob(canvas, type, 0.92);
+    const name = file.name.replace(/\.[^.]*$/, "") + (type === "image/png" ? ".png" : ".jpg");
+    return { file: new File([blob], name, { type }), cropped, skewAngle };
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+}
+
+/**
+ * Corners of the document in image pixels
+ * The page is taken to be the largest bright region, which holds for paper on
+ * a desk or table; its corners are the extremes along the two diagonals.
+ * @returns null when no plausible page is found or it already fills the photo
+ */
+export function findDocumentCorners(image: ImageData): Quad | null {
+  const scale = DETECT_EDGE / Math.max(image.width, image.height);
+  const small = resize(image, Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+  const { width, height } = small;
+  const gray = boxBlur(getLuminance(small), width, height, 2);
+  const threshold = otsuThreshold(gray);
+  const region = largestRegion(gray, width, height, (value) => value > threshold);
+
+  if (region.length < width * height * 0.15) {
+    return null;
+  }
+
+  let [tl, tr, br, bl] = [region[0], region[0], region[0], region[0]];
+  let [minSum, maxSum, minDiff, maxDiff] = [Infinity, -Infinity, Infinity, -Infinity];
+
+  for (const index of region) {
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x + y < minSum) [minSum, tl] = [x + y, index];
+    if (x + y > maxSum) [maxSum, br] = [x + y, index];
+    if (x - y > maxDiff) [maxDiff, tr] = [x - y, index];
+    if (x - y < minDiff) [minDiff, bl] = [x - y, index];
+  }
+
+  const corners = [tl, tr, br, bl].map((index) => {
+    const x = index % width;
+    return { x: (x + 0.5) / scale, y: ((index - x) / width + 0.5) / scale };
+  }) as Quad;
+
+  // A page that fills the frame needs no crop; a region much smaller than its
+  // corner quad is not a rectangle (e.g. a bright table top with objects on it)
+  const quadArea = polygonArea(corners) * scale * scale;
+  if (quadArea > width * height * 0.95 || region.length < quadArea * 0.6 || !isConvex(corners)) {
+    return null;
+  }
+
+  return corners;
+}
+
+/**
+ * Map the quad onto an upright rectangle sized by its longer opposite edges
+ */
+function warpPerspective(image: ImageData, [tl, tr, br, bl]: Quad): ImageData {
+  const width = Math.round(Math.max(distance(tl, tr), distance(bl, br)));
+  const height = Math.round(Math.max(distance(tl, bl), distance(tr, br)));
+  const h = solveHomography(
+    [
+      { x: 0, y: 0 },
+      { x: width - 1, y: 0 },
+      { x: width - 1, y: height - 1 },
+      { x: 0, y: height - 1 },
+    ],
+    [tl, tr, br, bl]
+  );
+  const output = new ImageData(width, height);
+
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const w = h[6] * u + h[7] * v + 1;
+      const x = (h[0] * u + h[1] * v + h[2]) / w;
+      const y = (h[3] * u + h[4] * v + h[5]) / w;
+      sampleBilinear(image, x, y, output.data, (v * width + u) * 4);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Homography taking each `from` point to its `to` point, as the first eight
+ * entries of the 3×3 matrix (the ninth is 1)
+ */
+function solveHomography(from: Point[], to: Point[]): number[] {
+  const rows: number[][] = [];
+
+  from.forEach(({ x: u, y: v }, i) => {
+    const { x, y } = to[i];
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  return rows.map((row, i) => row[8] / row[i]);
+}
+
+/**
+ * Skew of the text lines in degrees, by projection profiles
+ * Dark pixels are projected onto rows at each candidate angle; the angle where
+ * text lines line up gives the sharpest profile (largest sum of squares).
+ */
+function detectSkew(image: ImageData): number {
+  const scale = Math.min(1, SKEW_EDGE / Math.max(image.width, image.height));
+  const small = scale < 1 ? resize(image, Math.round(image.width * scale), Math.round(image.height * scale)) : image;
+  const { width, height } = small;
+  const gray = getLuminance(small);
+  const threshold = otsuThreshold(gray);
+  const points: Point[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] <= threshold) points.push({ x, y });
+    }
+  }
+
+  // Too little ink to measure, or mostly dark (a photo rather than a page)
+  if (points.length < 500 || points.length > width * height * 0.5) {
+    return 0;
+  }
+
+  const step = Math.max(1, Math.floor(points.length / 40000));
+  const sample = points.filter((_, index) => index % step === 0);
+  // Rotated rows range over roughly [-width, width + height]
+  const bins = new Float64Array(2 * width + height + 2);
+
+  const score = (degrees: number) => {
+    const angle = (degrees * Math.PI) / 180;
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    bins.fill(0);
+    for (const { x, y } of sample) {
+      bins[Math.round(y * cos - x * sin) + width] += 1;
+    }
+    let total = 0;
+    for (const count of bins) total += count * count;
+    return total;
+  };
+
+  let best = 0;
+  let bestScore = score(0);
+  const baseline = bestScore;
+
+  for (const stepSize of [0.5, 0.1]) {
+    const center = best;
+    const range = stepSize === 0.5 ? MAX_SKEW : 0.5;
+    for (let degrees = center - range; degrees <= center + range; degrees += stepSize) {
+      const value = score(degrees);
+      if (value > bestScore) {
+        bestScore = value;
+        best = degrees;
+      }
+    }
+  }
+
+  // A barely sharper profile is noise, not skew
+  return bestScore > baseline * 1.05 ? Math.round(best * 10) / 10 : 0;
+}
+
+/**
+ * Rotate clockwise by any angle, growing the canvas to fit and filling with white
+ */
+function rotateImage(image: ImageData, degrees: number): ImageData {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const width = Math.round(image.width * cos + image.height * sin);
+  const height = Math.round(image.width * sin + image.height * cos);
+  const source = toCanvas(image);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  context.fillStyle = "#fff";
+  context.fillRect(0, 0, width, height);
+  context.translate(width / 2, height / 2);
+  context.rotate(angle);
+  context.drawImage(source, -image.width / 2, -image.height / 2);
+
+  const rotated = context.getImageData(0, 0, width, height);
+  source.width = 0;
+  canvas.width = 0;
+  return rotated;
+}
+
+function toGrayscale(image: ImageData) {
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const value = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    data[i] = data[i + 1] = data[i + 2] = value;
+  }
+}
+
+/**
+ * Map the 1st-99th luminance percentiles to black and white
+ */
+function stretchContrast(image: ImageData) {
+  const gray = getLuminance(image);
+  const histogram = new Uint32Array(256);
+  for (const value of gray) histogram[value]++;
+
+  const percentile = (fraction: number) => {
+    let count = 0;
+    for (let value = 0; value < 256; value++) {
+      count += histogram[value];
+      if (count >= gray.length * fraction) return value;
+    }
+    return 255;
+  };
+
+  const low = percentile(0.01);
+  const high = percentile(0.99);
+  if (high - low < 16) return;
+
+  const lookup = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) {
+    lookup[value] = ((value - low) * 255) / (high - low);
+  }
+
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lookup[data[i]];
+    data[i + 1] = lookup[data[i + 1]];
+    data[i + 2] = lookup[data[i + 2]];
+  }
+}
+
+/**
+ * Adaptive threshold against the local mean (Bradley), so shadows and uneven
+ * lighting across a receipt don't turn whole areas black
+ */
+function binarize(image: ImageData) {
+  const { width, height, data } = image;
+  const gray = getLuminance(image);
+  const integral = integralImage(gray, width, height);
+  const radius = Math.max(7, Math.round(Math.max(width, height) / 32));
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = areaSum(integral, width, x0, y0, x1, y1);
+      const count = (x1 - x0) * (y1 - y0);
+      const value = gray[y * width + x] * count < sum * 0.85 ? 0 : 255;
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = value;
+    }
+  }
+}
+
+/**
+ * 3×3 median of each channel; edge pixels are copied unchanged
+ * @param grayscale - Channels are equal, so filter one and copy it
+ */
+function medianFilter(image: ImageData, grayscale: boolean): ImageData {
+  const { width, height, data } = image;
+  const output = new ImageData(new Uint8ClampedArray(data), width, height);
+  const window = new Uint8Array(9);
+  const channels = grayscale ? 1 : 3;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let channel = 0; channel < channels; channel++) {
+        let k = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            window[k++] = data[((y + dy) * width + x + dx) * 4 + channel];
+          }
+        }
+        output.data[i + channel] = window.sort()[4];
+      }
+      if (grayscale) {
+        output.data[i + 1] = output.data[i + 2] = output.data[i];
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Otsu's threshold: the cut that best separates the histogram into two classes
+ * Values at or below it form the dark class.
+ */
+function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Uint32Array(256);
+  for (const value of gray) histogram[value]++;
+
+  let total = 0;
+  for (let value = 0; value < 256; value++) total += value * histogram[value];
+
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+
+  for (let value = 0; value < 256; value++) {
+    backgroundCount += histogram[value];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = gray.length - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += value * histogram[value];
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (total - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = value;
+    }
+  }
+
+  return threshold;
+}
+
+/**
+ * Pixel indices of the largest 4-connected region matching the predicate
+ */
+function largestRegion(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  matches: (value: number) => boolean
+): number[] {
+  const visited = new Uint8Array(gray.length);
+  const queue = new Int32Array(gray.length);
+  let largest: number[] = [];
+
+  for (let start = 0; start < gray.length; start++) {
+    if (visited[start] || !matches(gray[start])) continue;
+
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    visited[start] = 1;
+
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index >= width ? index - width : -1,
+        index < width * (height - 1) ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && !visited[next] && matches(gray[next])) {
+          visited[next] = 1;
+          queue[tail++] = next;
+        }
+      }
+    }
+
+    if (tail > largest.length) {
+      largest = Array.from(queue.subarray(0, tail));
+    }
+  }
+
+  return largest;
+}
+
+function getLuminance(image: ImageData): Uint8Array {
+  const { data } = image;
+  const gray = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return gray;
+}
+
+function boxBlur(gray: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  const integral = integralImage(gray, width, height);
+  const output = new Uint8Array(gray.length);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      output[y * width + x] = areaSum(integral, width, x0, y0, x1, y1) / ((x1 - x0) * (y1 - y0));
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Summed-area table with a zero first row and column
+ */
+function integralImage(gray: Uint8Array, width: number, height: number): Float64Array {
+  const integral = new Float64Array((width + 1) * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  return integral;
+}
+
+/**
+ * Sum over [x0, x1) × [y0, y1)
+ */
+function areaSum(integral: Float64Array, width: number, x0: number, y0: number, x1: number, y1: number): number {
+  const stride = width + 1;
+  return integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+}
+
+function sampleBilinear(image: ImageData, x: number, y: number, target: Uint8ClampedArray, offset: number) {
+  const { width, height, data } = image;
+  const cx = Math.min(Math.max(x, 0), width - 1);
+  const cy = Math.min(Math.max(y, 0), height - 1);
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+
+  for (let channel = 0; channel < 4; channel++) {
+    const top = data[(y0 * width + x0) * 4 + channel] * (1 - fx) + data[(y0 * width + x1) * 4 + channel] * fx;
+    const bottom = data[(y1 * width + x0) * 4 + channel] * (1 - fx) + data[(y1 * width + x1) * 4 + channel] * fx;
+    target[offset + channel] = top * (1 - fy) + bottom * fy;
+  }
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  points.forEach((point, i) => {
+    const next = points[(i + 1) % points.length];
+    area += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(area) / 2;
+}
+
+function isConvex(points: Point[]): boolean {
+  let sign = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const c = points[(i + 2) % points.length];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+
+  return true;
+}
+
+function getImageData(source: CanvasImageSource, width: number, height: number): ImageData {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  context.imageSmoothingQuality = "high";
+  context.drawImage(source, 0, 0, width, height);
+  const image = context.getImageData(0, 0, width, height);
+  canvas.width = 0;
+  return image;
+}
+
+function resize(image: ImageData, width: number, height: number): ImageData {
+  const canvas = toCanvas(image);
+  const resized = getImageData(canvas, width, height);
+  canvas.width = 0;
+  return resized;
+}
+
+function toCanvas(image: ImageData): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext("2d")?.putImageData(image, 0, 0);
+  return canvas;
+}
@@ -0,0 +1,149 @@
+import type { OCRError, OCRResponse } from "../ocr-types";
+import type { OCRProviderConfig, OCRRequest, OCRStreamChunk } from "./types";
+
+/**
+ * Helpers shared by providers that speak the OpenAI chat-completions format
+ */
+
+export function buildChatCompletionsBody(
+  request: OCRRequest,
+  config: OCRProviderConfig,
+  prompt: string
+) {
+  return {
+    model: config.model,
+    messages: [
+      {
+        role: "user",
+        content: [
+          // Image MUST come before text per DeepInfra multimodal docs
+          {
+            type: "image_url",
+            image_url: {
+              url: `data:${request.mimeType};base64,${request.imageBase64}`,
+            },
+          },
+          {
+            type: "text",
+            text: prompt,
+          },
+        ],
+      },
+    ],
+    temperature: 0.0,
+    max_tokens: 4096, // Model context is 8192, leave room for input tokens
+    frequency_penalty: 1.0, // Prevent repetition loops
+    presence_penalty: 0.5,
+    ...(request.stream && {
+      stream: true,
+      stream_options: { include_usage: true }, // Usage arrives on the last chunk
+    }),
+  };
+}
+
+export function buildChatCompletionsTestBody(config: OCRProviderConfig) {
+  return {
+    model: config.model,
+    messages: [
+      {
+        role: "user",
+        content: [{ type: "text", text: "Test connection" }],
+      },
+    ],
+    max_tokens: 10,
+  };
+}
+
+export function buildChatCompletionsTextBody(config: OCRProviderConfig, prompt: string) {
+  return {
+    model: config.model,
+    messages: [
+      {
+        role: "user",
+        content: [{ type: "text", text: prompt }],
+      },
+    ],
+    temperature: 0.0,
+    max_tokens: 1024,
+  };
+}
+
+export function parseChatCompletionsResponse(body: unknown): OCRResponse {
+  const data = body as {
+    choices?: { message?: { content?: string } }[];
+    usage?: { total_tokens?: number };
+  };
+
+  // Extract text and token usage
+  return {
+    text: data.choices?.[0]?.message?.content || "",
+    tokensUsed: data.usage?.total_tokens || 0,
+  };
+}
+
+export function parseChatCompletionsChunk(body: unknown): OCRStreamChunk {
+  const data = body as {
+    choices?: { delta?: { content?: string } }[];
+    usage?: { total_tokens?: number } | null;
+  };
+
+  return {
+    delta: data.choices?.[0]?.delta?.content || "",
+    tokensUsed: data.usage?.total_tokens,
+  };
+}
+
+/**
+ * Map HTTP error responses to OCR errors
+ * The upstream body is logged rather than returned, since a misconfigured
+ * base URL could otherwise be used to read other servers' responses.
+ * @param providerName - Used in server error messages
+ */
+export async function mapChatCompletionsError(
+  response: Response,
+  providerName: string
+): Promise<OCRError> {
+  const status = response.status;
+
+  try {
+    const errorData = await response.json();
+    const errorMessage = errorData.error?.message || errorData.message || "Unknown error";
+
+    switch (status) {
+      case 401:
+      case 403:
+        return {
+          type: "invalid_key",
+          message: "Invalid API key. Please update your key in Settings.",
+        };
+
+      case 429:
+        const retryAfter = parseInt(response.headers.get("Retry-After") || "5", 10);
+        return {
+          type: "rate_limit",
+          message: `Rate limit reached. Please wait ${retryAfter} seconds.`,
+          retryAfter,
+        };
+
+      case 500:
+      case 502:
+      case 503:
+        return {
+          type: "server",
+          message: `${providerName} server error. Please try again later.`,
+        };
+
+      default:
+        console.error(`${providerName} error (HTTP ${status}):`, errorMessage);
+        return {
+          type: "unknown",
+          message: `${providerName} rejected the request (HTTP ${status}).`,
+        };
+    }
+  } catch {
+    return {
+      type: "unknown",
+      message: `HTTP ${status} error occurred`,
+    };
+  }
+}
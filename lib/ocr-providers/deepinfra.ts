@@ -0,0 +1,55 @@
+import { OCR_PROMPTS } from "../ocr-types";
+import {
+  buildChatCompletionsBody,
+  buildChatCompletionsTestBody,
+  buildChatCompletionsTextBody,
+  mapChatCompletionsError,
+  parseChatCompletionsChunk,
+  parseChatCompletionsResponse,
+} from "./chat-completions";
+import type { OCRProvider } from "./types";
+
+/**
+ * DeepSeek-OCR hosted on DeepInfra
+ */
+export const deepInfraProvider: OCRProvider = {
+  id: "deepinfra",
+  name: "DeepInfra",
+  description: "DeepSeek-OCR hosted by DeepInfra",
+  defaultModel: "deepseek-ai/DeepSeek-OCR",
+  suggestedModels: ["deepseek-ai/DeepSeek-OCR"],
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+
+  getEndpoint() {
+    return "https://api.deepinfra.com/v1/openai/chat/completions";
+  },
+
+  getPrompt(promptType) {
+    return OCR_PROMPTS[promptType];
+  },
+
+  buildRequestBody(request, config) {
+    return buildChatCompletionsBody(request, config, this.getPrompt(request.promptType, config.model));
+  },
+
+  buildTestBody(config) {
+    return buildChatCompletionsTestBody(config);
+  },
+
+  buildTextRequestBody(prompt, config) {
+    return buildChatCompletionsTextBody(config, prompt);
+  },
+
+  parseResponse(body) {
+    return parseChatCompletionsResponse(body);
+  },
+
+  parseStreamChunk(body) {
+    return parseChatCompletionsChunk(body);
+  },
+
+  mapErrorResponse(response) {
+    return mapChatCompletionsError(response, "DeepInfra");
+  },
+};
@@ -0,0 +1,123 @@
+import { lookup as lookupCallback, type LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { isIP, type LookupFunction } from "node:net";
+import { Agent } from "undici";
+
+let publicAgent: Agent | null = null;
+
+/**
+ * Server-side check that a user-supplied base URL doesn't point into the
+ * server's own network (loopback, private, link-local or cloud metadata
+ * addresses). Deployments that want local model servers list them in
+ * OCR_PROVIDER_ALLOWED_HOSTS, which validateBaseUrl enforces instead.
+ * This gives an early, readable error; getHostGuardDispatcher enforces the
+ * same rule on the connection itself.
+ * @returns An error message, or null when the host may be called
+ */
+export async function checkBaseUrlHost(baseUrl: string): Promise<string | null> {
+  if (process.env.OCR_PROVIDER_ALLOWED_HOSTS) {
+    return null;
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(baseUrl).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return "Base URL must be a valid URL.";
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch {
+    return `Could not resolve ${hostname}.`;
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    return "Local and private network addresses can't be used as a base URL on this deployment.";
+  }
+
+  return null;
+}
+
+/**
+ * Connection pool for requests to user-supplied base URLs
+ * Host names are resolved once per connection and the connection goes to the
+ * vetted address, so a DNS answer that changes after checkBaseUrlHost (DNS
+ * rebinding) can't reach a private address.
+ * @returns undefined when OCR_PROVIDER_ALLOWED_HOSTS is set
+ */
+export function getHostGuardDispatcher(): Agent | undefined {
+  if (process.env.OCR_PROVIDER_ALLOWED_HOSTS) {
+    return undefined;
+  }
+
+  publicAgent ??= new Agent({ connect: { lookup: lookupPublicAddress } });
+  return publicAgent;
+}
+
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true, verbatim: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      const blocked: NodeJS.ErrnoException = new Error(`${hostname} resolves to a private address`);
+      blocked.code = "EHOSTBLOCKED";
+      callback(blocked, "");
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function isPrivateAddress(address: string): boolean {
+  return isIP(address) === 4 ? isPrivateIPv4(address) : isPrivateIPv6(address.toLowerCase());
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+
+  return (
+    a === 0 || // "This" network
+    a === 10 ||
+    a === 127 || // Loopback
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    a >= 224 // Multicast and reserved
+  );
+}
+
+function isPrivateIPv6(address: string): boolean {
+  // IPv4-mapped, in dotted (::ffff:127.0.0.1) or hex (::ffff:7f00:1) form
+  const mapped = address.match(/^::ffff:(?:0:)?(.+)$/);
+  if (mapped) {
+    const tail = mapped[1];
+    if (isIP(tail) === 4) {
+      return isPrivateIPv4(tail);
+    }
+
+    const [high, low] = tail.split(":").map((group) => parseInt(group, 16));
+    return isPrivateIPv4(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+
+  return (
+    address === "::" ||
+    address === "::1" ||
+    /^f[cd]/.test(address) || // Unique local
+    /^fe[89ab]/.test(address) || // Link-local
+    address.startsWith("ff") // Multicast
+  );
+}
@@ -0,0 +1,293 @@
+/**
+ * OCR provider registry
+ * Provider definitions are metadata plus request/response mapping, so they
+ * are safe to import from client code; requests are only sent server-side.
+ */
+
+import type { OCRError, OCRResponse } from "../ocr-types";
+import { encodeSSEEvent, readSSEData } from "../sse";
+import { deepInfraProvider } from "./deepinfra";
+import { openAICompatibleProvider } from "./openai-compatible";
+import type { OCRProvider, OCRProviderConfig, OCRProviderId, OCRRequest } from "./types";
+
+export type {
+  OCRProvider,
+  OCRProviderConfig,
+  OCRProviderId,
+  OCRRequest,
+  OCRStreamChunk,
+} from "./types";
+
+export const DEFAULT_OCR_PROVIDER: OCRProviderId = "deepinfra";
+
+export const OCR_PROVIDERS: Record<OCRProviderId, OCRProvider> = {
+  deepinfra: deepInfraProvider,
+  "openai-compatible": openAICompatibleProvider,
+};
+
+export function isOCRProviderId(value: unknown): value is OCRProviderId {
+  return typeof value === "string" && value in OCR_PROVIDERS;
+}
+
+export function getOCRProvider(id: OCRProviderId): OCRProvider {
+  return OCR_PROVIDERS[id];
+}
+
+/**
+ * Check a user-supplied base URL for the OpenAI-compatible provider
+ * When OCR_PROVIDER_ALLOWED_HOSTS is set, only those hosts are accepted;
+ * otherwise route handlers also reject private addresses with checkBaseUrlHost
+ */
+export function validateBaseUrl(baseUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return "Base URL must be a valid URL, e.g. https://ocr.example.com/v1";
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "Base URL must use http or https.";
+  }
+
+  const allowedHosts = process.env.OCR_PROVIDER_ALLOWED_HOSTS;
+  if (allowedHosts) {
+    const hosts = allowedHosts.split(",").map((host) => host.trim().toLowerCase());
+    if (!hosts.includes(url.host.toLowerCase()) && !hosts.includes(url.hostname.toLowerCase())) {
+      return `Host ${url.host} is not allowed on this deployment.`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Send an OCR request to a provider (server-side only)
+ */
+export async function requestOCR(
+  provider: OCRProvider,
+  config: OCRProviderConfig,
+  request: OCRRequest
+): Promise<{ data?: OCRResponse; error?: OCRError }> {
+  return sendRequest(provider, config, provider.buildRequestBody(request, config));
+}
+
+/**
+ * Send a text-only prompt to a provider (server-side only)
+ */
+export async function requestCompletion(
+  provider: OCRProvider,
+  config: OCRProviderConfig,
+  prompt: string
+): Promise<{ data?: OCRResponse; error?: OCRError }> {
+  return sendRequest(provider, config, provider.buildTextRequestBody(prompt, config));
+}
+
+async function sendRequest(
+  provider: OCRProvider,
+  config: OCRProviderConfig,
+  body: unknown
+): Promise<{ data?: OCRResponse; error?: OCRError }> {
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout for larger documents
+
+    const response = await postToProvider(provider, config, body, controller.signal);
+
+    clearTimeout(timeoutId);
+
+    // Handle HTTP errors
+    if (!response.ok) {
+      return { error: await provider.mapErrorResponse(response) };
+    }
+
+    return { data: provider.parseResponse(await response.json()) };
+  } catch (error) {
+    return { error: handleException(error) };
+  }
+}
+
+/**
+ * Send a streaming OCR request (server-side only)
+ * @param signal - Aborts the upstream request, e.g. when the browser disconnects
+ * @returns SSE events for the browser: { delta } as text arrives, then
+ *   { data: OCRResponse } or { error: OCRError }
+ */
+export async function requestOCRStream(
+  provider: OCRProvider,
+  config: OCRProviderConfig,
+  request: OCRRequest,
+  signal?: AbortSignal
+): Promise<{ stream?: ReadableStream<Uint8Array>; error?: OCRError }> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  const timeoutId = setTimeout(onAbort, 60000);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  // Called once the upstream request is over, however it ends
+  const finish = () => {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  };
+
+  let response: Response;
+  try {
+    response = await postToProvider(
+      provider,
+      config,
+      provider.buildRequestBody({ ...request, stream: true }, config),
+      controller.signal
+    );
+  } catch (error) {
+    finish();
+    return { error: handleException(error) };
+  }
+
+  // Handle HTTP errors
+  if (!response.ok) {
+    finish();
+    return { error: await provider.mapErrorResponse(response) };
+  }
+
+  const upstream = response.body;
+  // Some self-hosted servers ignore `stream` and answer with plain JSON
+  const isEventStream = response.headers.get("Content-Type")?.includes("text/event-stream");
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = (payload: unknown) => {
+        if (!closed) streamController.enqueue(encoder.encode(encodeSSEEvent(payload)));
+      };
+
+      try {
+        if (!isEventStream || !upstream) {
+          send({ data: provider.parseResponse(await response.json()) });
+          return;
+        }
+
+        let text = "";
+        let tokensUsed = 0;
+
+        for await (const data of readSSEData(upstream)) {
+          if (data === "[DONE]") break;
+
+          const chunk = provider.parseStreamChunk(JSON.parse(data));
+          if (chunk.delta) {
+            text += chunk.delta;
+            send({ delta: chunk.delta });
+          }
+          if (chunk.tokensUsed) {
+            tokensUsed = chunk.tokensUsed;
+          }
+        }
+
+        send({ data: { text, tokensUsed } satisfies OCRResponse });
+      } catch (error) {
+        send({ error: handleException(error) });
+      } finally {
+        finish();
+        if (!closed) {
+          closed = true;
+          streamController.close();
+        }
+      }
+    },
+
+    cancel() {
+      closed = true;
+      controller.abort();
+    },
+  });
+
+  return { stream };
+}
+
+/**
+ * Send a minimal request to check that a provider config is accepted
+ */
+export async function testOCRProvider(
+  provider: OCRProvider,
+  config: OCRProviderConfig
+): Promise<{ error?: OCRError }> {
+  try {
+    const response = await postToProvider(provider, config, provider.buildTestBody(config));
+
+    if (!response.ok) {
+      return { error: await provider.mapErrorResponse(response) };
+    }
+
+    return {};
+  } catch (error) {
+    return { error: handleException(error) };
+  }
+}
+
+/**
+ * POST a JSON body to the provider's endpoint
+ */
+function postToProvider(
+  provider: OCRProvider,
+  config: OCRProviderConfig,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  // Node's fetch takes the connection pool as `dispatcher`
+  const init: RequestInit & { dispatcher?: OCRProviderConfig["dispatcher"] } = {
+    method: "POST",
+    headers: buildHeaders(config),
+    body: JSON.stringify(body),
+    signal,
+    // A redirect could lead past the base URL host checks
+    redirect: "error",
+    dispatcher: config.dispatcher,
+  };
+
+  return fetch(provider.getEndpoint(config), init);
+}
+
+function buildHeaders(config: OCRProviderConfig): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  // Self-hosted servers often run without auth
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Handle exceptions (network errors, timeouts, etc.)
+ */
+function handleException(error: unknown): OCRError {
+  if (error instanceof Error) {
+    if (error.name === "AbortError") {
+      return {
+        type: "timeout",
+        message: "Request timed out. Try a smaller file or check your connection.",
+      };
+    }
+
+    if (error.message.includes("fetch")) {
+      return {
+        type: "network",
+        message: "Network error. Could not reach the OCR provider.",
+      };
+    }
+
+    // Parse errors can quote the upstream body, so it stays in the server log
+    console.error("OCR provider error:", error);
+    return {
+      type: "unknown",
+      message: "Unexpected response from the OCR provider.",
+    };
+  }
+
+  return {
+    type: "unknown",
+    message: "An unexpected error occurred",
+  };
+}
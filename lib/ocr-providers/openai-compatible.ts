@@ -0,0 +1,81 @@
+import { OCR_PROMPTS, type OCRPromptType } from "../ocr-types";
+import {
+  buildChatCompletionsBody,
+  buildChatCompletionsTestBody,
+  buildChatCompletionsTextBody,
+  mapChatCompletionsError,
+  parseChatCompletionsChunk,
+  parseChatCompletionsResponse,
+} from "./chat-completions";
+import type { OCRProvider } from "./types";
+
+/**
+ * Prompts for general-purpose vision models, which don't understand
+ * DeepSeek-OCR's terse instructions or grounding tags
+ */
+const GENERIC_PROMPTS: Record<OCRPromptType, string> = {
+  document:
+    "Convert this document to markdown. Preserve headings, lists and tables. Output only the markdown.",
+  general: "Transcribe all text visible in this image. Output only the text.",
+  free: "Transcribe all text in this image as plain text without formatting.",
+  figure:
+    "Describe this chart or figure in markdown, including its title, axes, legend and data values as a table where possible.",
+  // Generic models can't emit coordinates, fall back to plain document markdown
+  grounding:
+    "Convert this document to markdown. Preserve headings, lists and tables. Output only the markdown.",
+};
+
+function isDeepSeekOCRModel(model: string): boolean {
+  return model.toLowerCase().includes("deepseek-ocr");
+}
+
+/**
+ * Any OpenAI-compatible chat-completions server (vLLM, Ollama, LM Studio, ...)
+ */
+export const openAICompatibleProvider: OCRProvider = {
+  id: "openai-compatible",
+  name: "OpenAI-Compatible",
+  description: "Self-hosted or third-party chat-completions server",
+  defaultModel: "deepseek-ai/DeepSeek-OCR",
+  suggestedModels: [
+    "deepseek-ai/DeepSeek-OCR",
+    "Qwen/Qwen2.5-VL-7B-Instruct",
+    "gpt-4o-mini",
+  ],
+  requiresApiKey: false,
+  requiresBaseUrl: true,
+
+  getEndpoint(config) {
+    // Accept both ".../v1" and a full ".../chat/completions" URL
+    const baseUrl = (config.baseUrl ?? "").replace(/\/+$/, "");
+    return baseUrl.endsWith("/chat/completions") ? baseUrl : `${baseUrl}/chat/completions`;
+  },
+
+  getPrompt(promptType, model) {
+    return isDeepSeekOCRModel(model) ? OCR_PROMPTS[promptType] : GENERIC_PROMPTS[promptType];
+  },
+
+  buildRequestBody(request, config) {
+    return buildChatCompletionsBody(request, config, this.getPrompt(request.promptType, config.model));
+  },
+
+  buildTestBody(config) {
+    return buildChatCompletionsTestBody(config);
+  },
+
+  buildTextRequestBody(prompt, config) {
+    return buildChatCompletionsTextBody(config, prompt);
+  },
+
+  parseResponse(body) {
+    return parseChatCompletionsResponse(body);
+  },
+
+  parseStreamChunk(body) {
+    return parseChatCompletionsChunk(body);
+  },
+
+  mapErrorResponse(response) {
+    return mapChatCompletionsError(response, "OCR");
+  },
+};
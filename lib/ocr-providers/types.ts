@@ -0,0 +1,57 @@
+import type { Dispatcher } from "undici";
+import type { OCRError, OCRPromptType, OCRResponse } from "../ocr-types";
+
+export type OCRProviderId = "deepinfra" | "openai-compatible";
+
+/**
+ * Resolved settings for one OCR call - the key never leaves the server
+ */
+export interface OCRProviderConfig {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  /** Server-side connection pool, e.g. one that refuses private addresses */
+  dispatcher?: Dispatcher;
+}
+
+export interface OCRRequest {
+  imageBase64: string;
+  mimeType: string;
+  promptType: OCRPromptType;
+  /** Ask the provider for a server-sent events response */
+  stream?: boolean;
+}
+
+/**
+ * One parsed event from a streaming response
+ */
+export interface OCRStreamChunk {
+  delta: string;
+  /** Usually only present on the final chunk */
+  tokensUsed?: number;
+}
+
+/**
+ * An OCR backend speaking a chat-completions style API
+ */
+export interface OCRProvider {
+  id: OCRProviderId;
+  name: string;
+  description: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  /** Full URL requests are POSTed to */
+  getEndpoint(config: OCRProviderConfig): string;
+  /** Prompt text sent alongside the image for a prompt type */
+  getPrompt(promptType: OCRPromptType, model: string): string;
+  buildRequestBody(request: OCRRequest, config: OCRProviderConfig): unknown;
+  /** Minimal text-only request used to verify a key */
+  buildTestBody(config: OCRProviderConfig): unknown;
+  /** Text-only request for follow-up passes over extracted text */
+  buildTextRequestBody(prompt: string, config: OCRProviderConfig): unknown;
+  parseResponse(body: unknown): OCRResponse;
+  parseStreamChunk(body: unknown): OCRStreamChunk;
+  mapErrorResponse(response: Response): Promise<OCRError>;
+}
@@ -0,0 +1,197 @@
+import { parseGroundedText, type GroundingRegion } from "./grounding";
+import type { OCRPromptType, OCRResponse } from "./ocr-types";
+
+/**
+ * Where a page's text came from: the model, or a PDF's embedded text layer
+ */
+export type PageSource = "ocr" | "text-layer";
+
+/**
+ * Text extracted from a single page (images count as page 1)
+ */
+export interface PageResult {
+  pageNumber: number;
+  text: string;
+  promptType: OCRPromptType;
+  tokensUsed: number;
+  regions?: GroundingRegion[]; // Grounding mode only
+  source?: PageSource; // Missing on older results, which were all OCR
+  cached?: boolean; // Reused from the result cache; no tokens were spent
+}
+
+/**
+ * Build a page result from an OCR response, parsing grounding tags when needed
+ * @param cached - The response came from the result cache, so it cost no tokens
+ */
+export function createPageResult(
+  response: OCRResponse,
+  pageNumber: number,
+  promptType: OCRPromptType,
+  cached = false
+): PageResult {
+  const usage = cached ? { tokensUsed: 0, cached } : { tokensUsed: response.tokensUsed };
+
+  if (promptType !== "grounding") {
+    return { pageNumber, text: response.text, promptType, ...usage, source: "ocr" };
+  }
+
+  const grounded = parseGroundedText(response.text, pageNumber);
+
+  return {
+    pageNumber,
+    text: grounded.text,
+    promptType,
+    ...usage,
+    regions: grounded.regions.length > 0 ? grounded.regions : undefined,
+    source: "ocr",
+  };
+}
+
+/**
+ * Build a page result from a PDF page's embedded text; no tokens are spent
+ */
+export function createTextLayerResult(
+  text: string,
+  pageNumber: number,
+  promptType: OCRPromptType
+): PageResult {
+  return { pageNumber, text, promptType, tokensUsed: 0, source: "text-layer" };
+}
+
+/**
+ * Page numbers read from the embedded text layer instead of OCR
+ */
+export function getTextLayerPages(pages: PageResult[]): number[] {
+  return pages.filter((page) => page.source === "text-layer").map((page) => page.pageNumber);
+}
+
+/**
+ * Page numbers reused from the result cache
+ */
+export function getCachedPages(pages: PageResult[]): number[] {
+  return pages.filter((page) => page.cached).map((page) => page.pageNumber);
+}
+
+/**
+ * Compact list of page numbers, e.g. [1, 2, 3, 5] → "1-3, 5"
+ */
+export function formatPageList(pageNumbers: number[]): string {
+  const ranges: string[] = [];
+  const sorted = [...pageNumbers].sort((a, b) => a - b);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(sorted[i] === start ? `${start}` : `${start}-${sorted[i]}`);
+  }
+
+  return ranges.join(", ");
+}
+
+/**
+ * Gather grounding regions from all pages, or undefined when there are none
+ */
+export function collectRegions(pages: PageResult[]): GroundingRegion[] | undefined {
+  const regions = pages.flatMap((page) => page.regions ?? []);
+  return regions.length > 0 ? regions : undefined;
+}
+
+/**
+ * Sum token usage across pages
+ */
+export function sumTokens(pages: PageResult[]): number {
+  return pages.reduce((total, page) => total + page.tokensUsed, 0);
+}
+
+/**
+ * Join page results into one markdown document with page headings
+ * @param multiPage - Add "## Page N" separators (defaults to more than one page)
+ */
+export function combinePageText(
+  pages: PageResult[],
+  multiPage: boolean = pages.length > 1
+): string {
+  if (!multiPage) {
+    return pages.map((page) => page.text).join("\n\n");
+  }
+
+  return pages
+    .map((page, index) =>
+      index === 0
+        ? `## Page ${page.pageNumber}\n\n${page.text}`
+        : `\n\n---\n\n## Page ${page.pageNumber}\n\n${page.text}`
+    )
+    .join("");
+}
+
+/**
+ * Map edited combined text back onto pages using the "## Page N" headings
+ * from combinePageText. Edited pages lose their grounding regions.
+ * @param multiPage - Whether the text was combined with page headings
+ * @returns null when the headings no longer match the pages
+ */
+export function splitCombinedText(
+  pages: PageResult[],
+  text: string,
+  multiPage: boolean = pages.length > 1
+): PageResult[] | null {
+  if (!multiPage) {
+    if (pages.length !== 1) return null;
+    return pages[0].text === text ? pages : [{ ...pages[0], text, regions: undefined }];
+  }
+
+  const sections = text.split(/^## Page (\d+)[ \t]*$/m);
+  // [before, number, body, number, body, ...]
+  if (sections[0].trim() || (sections.length - 1) / 2 !== pages.length) {
+    return null;
+  }
+
+  const result: PageResult[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[i];
+    if (Number(sections[i * 2 + 1]) !== page.pageNumber) {
+      return null;
+    }
+
+    const body = sections[i * 2 + 2].replace(/\n+---\s*$/, "").trim();
+    result.push(body === page.text.trim() ? page : { ...page, text: body, regions: undefined });
+  }
+
+  return result;
+}
+
+/**
+ * Collect the prompt type of each page when they differ from the file default
+ */
+export function getMixedPromptTypes(
+  pages: PageResult[],
+  defaultPromptType: OCRPromptType
+): Record<number, OCRPromptType> | undefined {
+  if (pages.every((page) => page.promptType === defaultPromptType)) {
+    return undefined;
+  }
+
+  return Object.fromEntries(pages.map((page) => [page.pageNumber, page.promptType]));
+}
+
+/**
+ * Strip markdown and HTML markup from OCR text down to non-empty lines
+ * Table rows keep their pipes and cell spacing so columns can still be told apart.
+ */
+export function toPlainLines(markdown: string): string[] {
+  return markdown
+    .replace(/<(br|\/tr|\/p|\/div|\/li|\/h\d)\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/, "")
+        .replace(/\*\*|__|`/g, "")
+        .trim()
+    )
+    .filter((line) => line && !/^\|?\s*:?-{3,}/.test(line)); // Table separators and rules
+}
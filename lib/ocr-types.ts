@@ -0,0 +1,112 @@
+/**
+ * Shared OCR types and prompts
+ * Used by both the browser client and the /api/ocr route handler
+ */
+
+export interface OCRResponse {
+  text: string;
+  tokensUsed: number;
+}
+
+export interface OCRError {
+  type:
+    | "invalid_key"
+    | "rate_limit"
+    | "network"
+    | "timeout"
+    | "server"
+    | "cancelled" // Aborted by the user; client-side only
+    | "unknown";
+  message: string;
+  retryAfter?: number; // seconds to wait before retry
+}
+
+/**
+ * Prompt types for different OCR tasks
+ * Based on official DeepSeek-OCR documentation
+ */
+export type OCRPromptType = "document" | "general" | "free" | "figure" | "grounding";
+
+export const OCR_PROMPTS: Record<OCRPromptType, string> = {
+  // For documents - preserves layout, tables, markdown formatting (no grounding coordinates)
+  document: "Convert the document to markdown.",
+  // For general images with text (no grounding coordinates)
+  general: "OCR this image.",
+  // Plain text extraction without layout preservation
+  free: "Free OCR.",
+  // For figures and charts
+  figure: "Parse the figure.",
+  // Markdown plus <|ref|>/<|det|> coordinate tags per block (parsed by lib/grounding.ts)
+  grounding: "<|grounding|>Convert the document to markdown.",
+};
+
+/**
+ * Check if a value is a known prompt type
+ */
+export function isOCRPromptType(value: unknown): value is OCRPromptType {
+  return typeof value === "string" && value in OCR_PROMPTS;
+}
+
+/**
+ * User-facing labels for each prompt type, in display order
+ */
+export const OCR_PROMPT_OPTIONS: {
+  value: OCRPromptType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "document",
+    label: "Document",
+    description: "Markdown with headings, lists and tables",
+  },
+  {
+    value: "general",
+    label: "General",
+    description: "Photos, signs and screenshots with text",
+  },
+  {
+    value: "free",
+    label: "Plain Text",
+    description: "Raw text without layout",
+  },
+  {
+    value: "figure",
+    label: "Figure",
+    description: "Charts, diagrams and plots",
+  },
+  {
+    value: "grounding",
+    label: "Grounded",
+    description: "Markdown with source regions for review",
+  },
+];
+
+/**
+ * Get the display label for a prompt type
+ */
+export function getPromptLabel(promptType: OCRPromptType): string {
+  return (
+    OCR_PROMPT_OPTIONS.find((option) => option.value === promptType)?.label ??
+    promptType
+  );
+}
+
+/**
+ * Map an OCR error type to the HTTP status the API route responds with
+ */
+export function getErrorStatus(error: OCRError): number {
+  switch (error.type) {
+    case "invalid_key":
+      return 401;
+    case "rate_limit":
+      return 429;
+    case "timeout":
+      return 504;
+    case "network":
+    case "server":
+      return 502;
+    default:
+      return 500;
+  }
+}
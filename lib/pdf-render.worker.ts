@@ -0,0 +1,261 @@
+/**
+ * Dedicated worker that loads a PDF and rasterises its pages
+ * pdf.js runs here on an OffscreenCanvas so parsing and rendering big documents
+ * never blocks the main thread. Driven by openPDF in pdf-utils.
+ */
+
+import * as pdfjsLib from "pdfjs-dist";
+import type { PageViewport, PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+import * as pdfjsWorker from "pdfjs-dist/build/pdf.worker.min.mjs";
+import { readTextLayer, type PDFTextLayer, type TextLayerFormat } from "./pdf-text";
+import {
+  getRenderScale,
+  prepareCanvas,
+  type ImageFormat,
+  type PreparedImage,
+} from "./image-prep";
+
+export type PDFWorkerRequest =
+  | { type: "open"; id: number; data: ArrayBuffer }
+  | {
+      type: "render";
+      id: number;
+      pageNumber: number;
+      scale?: number; // Picked from the page size when missing
+      rotation: number;
+      format: ImageFormat;
+      withPreview: boolean;
+    }
+  | { type: "thumbnail"; id: number; pageNumber: number; width: number }
+  | { type: "text"; id: number; pageNumber: number; format: TextLayerFormat };
+
+export type PDFWorkerStage = "loading" | "rendering" | "encoding";
+
+export type PDFWorkerResponse =
+  | { type: "opened"; id: number; numPages: number }
+  | { type: "rendered"; id: number; pageNumber: number; image: PreparedImage; preview?: Blob }
+  | { type: "thumbnail"; id: number; image: Blob }
+  | { type: "text"; id: number; layer: PDFTextLayer }
+  | { type: "progress"; id: number; stage: PDFWorkerStage; pageNumber?: number; percent?: number }
+  | { type: "error"; id: number; name: string; message: string };
+
+interface CanvasAndContext {
+  canvas: OffscreenCanvas | null;
+  context: OffscreenCanvasRenderingContext2D | null;
+}
+
+/**
+ * Canvases for pdf.js internals (patterns, masks, groups) without a document
+ */
+class OffscreenCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    if (width <= 0 || height <= 0) {
+      throw new Error("Invalid canvas size");
+    }
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext("2d", { willReadFrequently: true }) };
+  }
+
+  reset({ canvas }: CanvasAndContext, width: number, height: number) {
+    if (!canvas) {
+      throw new Error("Canvas is not specified");
+    }
+    canvas.width = width;
+    canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+/**
+ * SVG filters need a DOM; they only affect transfer maps and high-contrast mode
+ */
+class NoopFilterFactory {
+  addFilter() {
+    return "none";
+  }
+  addHCMFilter() {
+    return "none";
+  }
+  addAlphaFilter() {
+    return "none";
+  }
+  addLuminosityFilter() {
+    return "none";
+  }
+  addHighlightHCMFilter() {
+    return "none";
+  }
+  destroy() {}
+}
+
+// Run pdf.js's own worker code in this thread instead of spawning another worker
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = pdfjsWorker;
+
+let pdf: PDFDocumentProxy | null = null;
+
+function post(response: PDFWorkerResponse) {
+  self.postMessage(response);
+}
+
+async function open(id: number, data: ArrayBuffer) {
+  // Embedded fonts are registered with the worker's FontFaceSet
+  const { fonts } = self as { fonts?: FontFaceSet };
+  if (typeof OffscreenCanvas === "undefined" || !fonts) {
+    throw new DOMException("OffscreenCanvas rendering is not supported", "NotSupportedError");
+  }
+
+  const loadingTask = pdfjsLib.getDocument({
+    data,
+    CanvasFactory: OffscreenCanvasFactory,
+    FilterFactory: NoopFilterFactory,
+    // Only the font loader touches the document
+    ownerDocument: { fonts },
+    isOffscreenCanvasSupported: true,
+  });
+
+  loadingTask.onProgress = ({ loaded, total }: { loaded: number; total: number }) => {
+    if (total > 0) {
+      post({ type: "progress", id, stage: "loading", percent: Math.round((loaded / total) * 100) });
+    }
+  };
+
+  pdf = await loadingTask.promise;
+  post({ type: "opened", id, numPages: pdf.numPages });
+}
+
+/**
+ * Draw a page onto a new OffscreenCanvas
+ */
+async function drawPage(page: PDFPageProxy, viewport: PageViewport): Promise<OffscreenCanvas> {
+  const canvas = new OffscreenCanvas(viewport.width, viewport.height);
+  const context = canvas.getContext("2d");
+
+  if (!context) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  await page.render({
+    canvasContext: context,
+    canvas: null,
+    viewport,
+  }).promise;
+
+  return canvas;
+}
+
+async function render(
+  id: number,
+  pageNumber: number,
+  scale: number | undefined,
+  rotation: number,
+  format: ImageFormat,
+  withPreview: boolean
+) {
+  if (!pdf) {
+    throw new Error("No PDF is open");
+  }
+
+  post({ type: "progress", id, stage: "rendering", pageNumber });
+
+  const page = await pdf.getPage(pageNumber);
+  // Extra rotation is applied on top of the page's own /Rotate
+  const [x0, y0, x1, y1] = page.view;
+  const viewport = page.getViewport({
+    scale: scale ?? getRenderScale(x1 - x0, y1 - y0),
+    rotation: (page.rotate + rotation) % 360,
+  });
+  let canvas: OffscreenCanvas | null = null;
+
+  try {
+    canvas = await drawPage(page, viewport);
+
+    post({ type: "progress", id, stage: "encoding", pageNumber });
+
+    const image = await prepareCanvas(canvas, format);
+    const preview = withPreview
+      ? await canvas.convertToBlob({ type: "image/jpeg", quality: 0.85 })
+      : undefined;
+
+    post({ type: "rendered", id, pageNumber, image, preview });
+  } finally {
+    // Release the bitmap and pdf.js page resources right away
+    if (canvas) {
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+    page.cleanup();
+  }
+}
+
+async function renderThumbnail(id: number, pageNumber: number, width: number) {
+  if (!pdf) {
+    throw new Error("No PDF is open");
+  }
+
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+  let canvas: OffscreenCanvas | null = null;
+
+  try {
+    canvas = await drawPage(page, viewport);
+    post({ type: "thumbnail", id, image: await canvas.convertToBlob({ type: "image/jpeg", quality: 0.7 }) });
+  } finally {
+    if (canvas) {
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+    page.cleanup();
+  }
+}
+
+async function readText(id: number, pageNumber: number, format: TextLayerFormat) {
+  if (!pdf) {
+    throw new Error("No PDF is open");
+  }
+
+  const page = await pdf.getPage(pageNumber);
+  const layer = await readTextLayer(page, pdfjsLib.OPS, format);
+
+  // Pages that still need OCR keep their parsed operators for the render
+  if (layer.kind === "text") {
+    page.cleanup();
+  }
+
+  post({ type: "text", id, layer });
+}
+
+self.addEventListener("message", (event: MessageEvent<PDFWorkerRequest>) => {
+  const request = event.data;
+  const task =
+    request.type === "open"
+      ? open(request.id, request.data)
+      : request.type === "text"
+        ? readText(request.id, request.pageNumber, request.format)
+        : request.type === "thumbnail"
+          ? renderThumbnail(request.id, request.pageNumber, request.width)
+          : render(
+              request.id,
+              request.pageNumber,
+              request.scale,
+              request.rotation,
+              request.format,
+              request.withPreview
+            );
+
+  task.catch((error: unknown) => {
+    post({
+      type: "error",
+      id: request.id,
+      name: error instanceof Error ? error.name : "Error",
+      message: error instanceof Error ? error.message : "Failed to render PDF",
+    });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Embedded PDF text layers
+ * Born-digital pages already carry their text, so it can be read directly
+ * instead of being rasterised and sent for OCR. Shared by pdf-utils and the
+ * render worker; pdf.js itself is passed in so this module stays import-safe on the server.
+ */
+
+import type { OPS as PDFOperators, PDFPageProxy } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { OCRPromptType } from "./ocr-types";
+
+export type TextLayerFormat = "markdown" | "plain";
+
+/**
+ * "text" pages can skip OCR; "mixed" pages have large images alongside their
+ * text and "image" pages have no usable text, so both still go to the model
+ */
+export type PDFTextLayer =
+  | { kind: "text"; text: string }
+  | { kind: "mixed" | "image"; text?: undefined };
+
+// Fewer characters than this is treated as no text layer (page numbers, stray labels)
+const MIN_TEXT_CHARS = 20;
+// Share of characters that must be letters, digits or punctuation
+const MIN_READABLE_RATIO = 0.9;
+// Share of the page covered by images above which a page counts as mixed
+const MAX_IMAGE_COVERAGE = 0.25;
+
+/**
+ * Modes whose output the text layer can stand in for
+ * Figure and grounding modes need the model to see the page.
+ */
+export function canUseTextLayer(promptType: OCRPromptType): boolean {
+  return promptType === "document" || promptType === "general" || promptType === "free";
+}
+
+/**
+ * Document mode reconstructs markdown; the other modes get plain lines
+ */
+export function getTextLayerFormat(promptType: OCRPromptType): TextLayerFormat {
+  return promptType === "document" ? "markdown" : "plain";
+}
+
+/**
+ * Read and classify a page's embedded text
+ * @param ops - pdf.js OPS table, used to measure how much of the page is images
+ */
+export async function readTextLayer(
+  page: PDFPageProxy,
+  ops: typeof PDFOperators,
+  format: TextLayerFormat
+): Promise<PDFTextLayer> {
+  const content = await page.getTextContent();
+  const items = content.items.filter((item): item is TextItem => "str" in item);
+
+  if (!isUsableText(items.map((item) => item.str).join(""))) {
+    return { kind: "image" };
+  }
+
+  if ((await getImageCoverage(page, ops)) > MAX_IMAGE_COVERAGE) {
+    return { kind: "mixed" };
+  }
+
+  return { kind: "text", text: formatLines(groupLines(items), format) };
+}
+
+/**
+ * Enough characters, and not the replacement or private-use glyphs that
+ * fonts without a Unicode map produce
+ */
+function isUsableText(text: string): boolean {
+  const chars = Array.from(text.replace(/\s/g, ""));
+  if (chars.length < MIN_TEXT_CHARS) return false;
+
+  const readable = chars.filter((char) => /[\p{L}\p{N}\p{P}\p{S}]/u.test(char) && !/[�\p{Co}]/u.test(char));
+  return readable.length / chars.length >= MIN_READABLE_RATIO;
+}
+
+/**
+ * Fraction of the page area painted with images
+ * An image fills the unit square under the current transform, so its area is
+ * the transform's determinant; only determinants need tracking through the stack.
+ */
+async function getImageCoverage(page: PDFPageProxy, ops: typeof PDFOperators): Promise<number> {
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const [x0, y0, x1, y1] = page.view;
+  const pageArea = Math.abs((x1 - x0) * (y1 - y0));
+  const stack: number[] = [];
+  let scale = 1;
+  let imageArea = 0;
+
+  fnArray.forEach((fn, index) => {
+    const args = argsArray[index];
+
+    switch (fn) {
+      case ops.save:
+        stack.push(scale);
+        break;
+      case ops.restore:
+        scale = stack.pop() ?? scale;
+        break;
+      case ops.transform:
+        scale *= determinant(args);
+        break;
+      case ops.paintFormXObjectBegin:
+        stack.push(scale);
+        if (args?.[0]) scale *= determinant(args[0]);
+        break;
+      case ops.paintFormXObjectEnd:
+        scale = stack.pop() ?? scale;
+        break;
+      case ops.paintImageXObject:
+      case ops.paintInlineImageXObject:
+      case ops.paintImageMaskXObject:
+        imageArea += Math.abs(scale);
+        break;
+    }
+  });
+
+  return pageArea > 0 ? Math.min(1, imageArea / pageArea) : 0;
+}
+
+function determinant(matrix: ArrayLike<number>): number {
+  return matrix[0] * matrix[3] - matrix[1] * matrix[2];
+}
+
+interface TextLine {
+  text: string;
+  y: number;
+  size: number;
+}
+
+/**
+ * Join text runs into lines in content order, spacing runs by their gaps
+ */
+function groupLines(items: TextItem[]): TextLine[] {
+  const lines: TextLine[] = [];
+  let current: (TextLine & { endX: number }) | null = null;
+  let breakAfter = false;
+
+  for (const item of items) {
+    const [, , c, d, x, y] = item.transform as number[];
+    const size = Math.hypot(c, d) || item.height;
+
+    if (!item.str) {
+      breakAfter ||= item.hasEOL;
+      continue;
+    }
+
+    if (!current || breakAfter || Math.abs(y - current.y) > size * 0.5) {
+      current = { text: item.str, y, size, endX: x + item.width };
+      lines.push(current);
+    } else {
+      const gap = x - current.endX;
+      const needsSpace = gap > size * 0.2 && !/\s$/.test(current.text) && !/^\s/.test(item.str);
+      current.text += (needsSpace ? " " : "") + item.str;
+      current.size = Math.max(current.size, size);
+      current.endX = x + item.width;
+    }
+
+    breakAfter = item.hasEOL;
+  }
+
+  return lines
+    .map((line) => ({ text: line.text.replace(/\s+/g, " ").trim(), y: line.y, size: line.size }))
+    .filter((line) => line.text);
+}
+
+/**
+ * Lines to text with blank lines between paragraphs; markdown also marks
+ * headings by font size and turns bullet glyphs into list items
+ */
+function formatLines(lines: TextLine[], format: TextLayerFormat): string {
+  const bodySize = getBodySize(lines);
+  const output: string[] = [];
+
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    // Baselines further apart than ~1.6 lines start a new paragraph
+    if (previous && Math.abs(previous.y - line.y) > Math.max(previous.size, line.size) * 1.6) {
+      output.push("");
+    }
+
+    if (format === "plain") {
+      output.push(line.text);
+      return;
+    }
+
+    const bullet = /^[•◦▪‣●○■□]\s*(.*)$/.exec(line.text);
+    if (bullet) {
+      output.push(`- ${bullet[1]}`);
+    } else if (line.text.length <= 100 && line.size >= bodySize * 1.5) {
+      output.push("", `# ${line.text}`, "");
+    } else if (line.text.length <= 100 && line.size >= bodySize * 1.2) {
+      output.push("", `## ${line.text}`, "");
+    } else {
+      output.push(line.text);
+    }
+  });
+
+  return output
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Most common font size, weighted by characters
+ */
+function getBodySize(lines: TextLine[]): number {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.size * 2) / 2;
+    counts.set(size, (counts.get(size) ?? 0) + line.text.length);
+  }
+
+  let bodySize = 0;
+  let best = -1;
+  counts.forEach((count, size) => {
+    if (count > best) {
+      best = count;
+      bodySize = size;
+    }
+  });
+
+  return bodySize;
+}
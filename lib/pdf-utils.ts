@@ -1,10 +1,21 @@
 "use client";
 
+import type { PDFWorkerRequest, PDFWorkerResponse, PDFWorkerStage } from "./pdf-render.worker";
+import type { PageViewport, PDFPageProxy } from "pdfjs-dist";
+import { readTextLayer, type PDFTextLayer, type TextLayerFormat } from "./pdf-text";
+import { canvasToObjectURL, getRenderScale, prepareCanvas, type ImageFormat } from "./image-prep";
+import { isDecodedImage, openImageFrames } from "./image-decoders";
+
 export interface PDFPage {
   pageNumber: number;
   imageBase64: string;
   width: number;
   height: number;
+  mimeType: string;
+  /** Encoded image size, before base64 */
+  bytes: number;
+  /** SHA-256 of the encoded image */
+  hash: string;
 }
 
 /**
@@ -15,16 +26,249 @@ export function isPDF(file: File): boolean {
 }
 
 /**
- * Convert a PDF file to an array of PNG images (one per page)
- * Uses dynamic import to avoid SSR issues with pdf.js
- * @param file - The PDF file to convert
- * @param scale - Scale factor for rendering (default 2 for good quality)
- * @returns Array of base64-encoded PNG images
+ * Check if a file goes through the per-page pipeline: PDFs, and TIFF, GIF,
+ * HEIC and BMP images, whose frames become pages
+ */
+export function hasPages(file: File): boolean {
+  return isPDF(file) || isDecodedImage(file);
+}
+
+/**
+ * Open a PDF or a decoded image format as pages
+ */
+export function openPages(file: File, options: OpenPDFOptions = {}): Promise<PDFSource> {
+  return isPDF(file) ? openPDF(file, options) : openImageFrames(file, options);
+}
+
+/**
+ * Parse a page range expression like "1-3,7" into sorted, unique page numbers
+ * @param input - Comma-separated page numbers and ranges (1-based)
+ * @param totalPages - Optional page count used to clamp open-ended ranges
+ * @returns Page numbers, or null if the expression is malformed
+ */
+export function parsePageRanges(
+  input: string,
+  totalPages?: number
+): number[] | null {
+  const pages = new Set<number>();
+  const parts = input.split(",").map((part) => part.trim()).filter(Boolean);
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  for (const part of parts) {
+    const match = /^(\d+)\s*(?:-\s*(\d*))?$/.exec(part);
+    if (!match) {
+      return null;
+    }
+
+    const start = parseInt(match[1], 10);
+    // "5-" means "page 5 to the end"
+    const end =
+      match[2] === undefined
+        ? start
+        : match[2] === ""
+          ? totalPages ?? start
+          : parseInt(match[2], 10);
+
+    if (start < 1 || end < start) {
+      return null;
+    }
+
+    for (let page = start; page <= end; page++) {
+      if (totalPages === undefined || page <= totalPages) {
+        pages.add(page);
+      }
+    }
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
+/**
+ * An open PDF whose pages are rendered on demand
+ * Only the pages being rendered are held as canvases, so long documents stay
+ * within a bounded amount of memory. Call destroy() when done.
+ */
+export interface PDFSource {
+  numPages: number;
+  /**
+   * Render one page to a base64 image sized and encoded for OCR
+   * @param scale - Scale factor for rendering (default: picked from the page size)
+   * @param rotation - Extra clockwise rotation in degrees (multiple of 90)
+   * @param format - "png" forces lossless output; "auto" picks by content (default)
+   * @param withPreview - Also return a JPEG object URL of the page (revoke it when done)
+   */
+  renderPage(
+    pageNumber: number,
+    options?: { scale?: number; rotation?: number; format?: ImageFormat; withPreview?: boolean }
+  ): Promise<PDFPage & { previewUrl?: string }>;
+  /**
+   * Small JPEG object URL of a page, for page pickers (revoke it when done)
+   */
+  renderThumbnail(pageNumber: number, width: number): Promise<string>;
+  /**
+   * Read the page's embedded text layer without rasterising it
+   */
+  readText(pageNumber: number, format: TextLayerFormat): Promise<PDFTextLayer>;
+  destroy(): Promise<void>;
+}
+
+export interface PDFProgress {
+  stage: PDFWorkerStage;
+  pageNumber?: number;
+  percent?: number;
+}
+
+export interface OpenPDFOptions {
+  /** Stops rendering and rejects pending pages with an AbortError */
+  signal?: AbortSignal;
+  /** Loading and per-page rendering progress */
+  onProgress?: (progress: PDFProgress) => void;
+}
+
+type WorkerResult<T extends PDFWorkerResponse["type"]> = Extract<PDFWorkerResponse, { type: T }>;
+
+/**
+ * Open a PDF for lazy page rendering
+ * Pages are rasterised in a dedicated worker on an OffscreenCanvas; browsers
+ * without OffscreenCanvas fall back to rendering on the main thread.
+ */
+export async function openPDF(file: File, options: OpenPDFOptions = {}): Promise<PDFSource> {
+  throwIfCancelled(options.signal);
+
+  if (typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined") {
+    try {
+      return await openPDFInWorker(file, options);
+    } catch (error) {
+      if ((error as Error).name !== "NotSupportedError") {
+        throw error;
+      }
+    }
+  }
+
+  return openPDFOnMainThread(file, options);
+}
+
+/**
+ * Proxy a PDFSource to pdf-render.worker
+ * Aborting or destroying terminates the worker, which frees the whole document at once.
  */
-export async function pdfToImages(
+async function openPDFInWorker(
   file: File,
-  scale: number = 2
-): Promise<PDFPage[]> {
+  { signal, onProgress }: OpenPDFOptions
+): Promise<PDFSource> {
+  const worker = new Worker(new URL("./pdf-render.worker.ts", import.meta.url), { type: "module" });
+  const pending = new Map<number, { resolve: (response: PDFWorkerResponse) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+  let closedWith: Error | null = null;
+
+  const close = (error: Error) => {
+    if (closedWith) return;
+    closedWith = error;
+    worker.terminate();
+    signal?.removeEventListener("abort", onAbort);
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  const onAbort = () => close(new DOMException("PDF conversion cancelled", "AbortError"));
+  signal?.addEventListener("abort", onAbort);
+
+  worker.onmessage = (event: MessageEvent<PDFWorkerResponse>) => {
+    const response = event.data;
+
+    if (response.type === "progress") {
+      onProgress?.({ stage: response.stage, pageNumber: response.pageNumber, percent: response.percent });
+      return;
+    }
+
+    const request = pending.get(response.id);
+    pending.delete(response.id);
+
+    if (response.type === "error") {
+      request?.reject(Object.assign(new Error(response.message), { name: response.name }));
+    } else {
+      request?.resolve(response);
+    }
+  };
+
+  // The worker script failed to load or threw while starting up
+  worker.onerror = (event) => {
+    event.preventDefault();
+    close(new DOMException(event.message || "PDF worker failed to start", "NotSupportedError"));
+  };
+
+  const send = (request: PDFWorkerRequest, transfer: Transferable[] = []) =>
+    new Promise<PDFWorkerResponse>((resolve, reject) => {
+      if (closedWith) {
+        reject(closedWith);
+        return;
+      }
+      pending.set(request.id, { resolve, reject });
+      worker.postMessage(request, transfer);
+    });
+
+  try {
+    const data = await file.arrayBuffer();
+    const { numPages } = (await send({ type: "open", id: nextId++, data }, [data])) as WorkerResult<"opened">;
+
+    return {
+      numPages,
+
+      async renderPage(pageNumber, { scale, rotation = 0, format = "auto", withPreview = false } = {}) {
+        const { image, preview } = (await send({
+          type: "render",
+          id: nextId++,
+          pageNumber,
+          scale,
+          rotation,
+          format,
+          withPreview,
+        })) as WorkerResult<"rendered">;
+
+        return {
+          pageNumber,
+          imageBase64: image.base64,
+          width: image.width,
+          height: image.height,
+          mimeType: image.mimeType,
+          bytes: image.bytes,
+          hash: image.hash,
+          previewUrl: preview && URL.createObjectURL(preview),
+        };
+      },
+
+      async renderThumbnail(pageNumber, width) {
+        const { image } = (await send({ type: "thumbnail", id: nextId++, pageNumber, width })) as WorkerResult<"thumbnail">;
+        return URL.createObjectURL(image);
+      },
+
+      async readText(pageNumber, format) {
+        const { layer } = (await send({ type: "text", id: nextId++, pageNumber, format })) as WorkerResult<"text">;
+        return layer;
+      },
+
+      async destroy() {
+        close(new DOMException("PDF was closed", "AbortError"));
+      },
+    };
+  } catch (error) {
+    close(error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Render with pdf.js on the main thread
+ * Uses dynamic import to avoid SSR issues with pdf.js. Progress and
+ * cancellation match the worker: an aborted signal rejects the next page.
+ */
+async function openPDFOnMainThread(
+  file: File,
+  { signal, onProgress }: OpenPDFOptions
+): Promise<PDFSource> {
   // Dynamic import to ensure pdf.js only loads in browser
   const pdfjsLib = await import("pdfjs-dist");
 
@@ -32,43 +276,158 @@ export async function pdfToImages(
   // Disable worker to avoid CORS/loading issues - runs in main thread
   pdfjsLib.GlobalWorkerOptions.workerSrc = "";
 
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const pages: PDFPage[] = [];
+  const loadingTask = pdfjsLib.getDocument({ data: await file.arrayBuffer() });
+  loadingTask.onProgress = ({ loaded, total }: { loaded: number; total: number }) => {
+    if (total > 0) {
+      onProgress?.({ stage: "loading", percent: Math.round((loaded / total) * 100) });
+    }
+  };
+
+  const pdf = await loadingTask.promise;
+
+  if (signal?.aborted) {
+    await pdf.destroy();
+    throwIfCancelled(signal);
+  }
+
+  return {
+    numPages: pdf.numPages,
+
+    async renderPage(pageNumber, { scale, rotation = 0, format = "auto", withPreview = false } = {}) {
+      throwIfCancelled(signal);
+      onProgress?.({ stage: "rendering", pageNumber });
+
+      const page = await pdf.getPage(pageNumber);
+      // Extra rotation is applied on top of the page's own /Rotate
+      const [x0, y0, x1, y1] = page.view;
+      const viewport = page.getViewport({
+        scale: scale ?? getRenderScale(x1 - x0, y1 - y0),
+        rotation: (page.rotate + rotation) % 360,
+      });
+      const canvas = document.createElement("canvas");
+
+      try {
+        await drawPage(page, viewport, canvas);
+
+        throwIfCancelled(signal);
+        onProgress?.({ stage: "encoding", pageNumber });
+
+        const image = await prepareCanvas(canvas, format);
+        const previewUrl = withPreview ? await canvasToObjectURL(canvas, 0.85) : undefined;
+
+        return {
+          pageNumber,
+          imageBase64: image.base64,
+          width: image.width,
+          height: image.height,
+          mimeType: image.mimeType,
+          bytes: image.bytes,
+          hash: image.hash,
+          previewUrl,
+        };
+      } finally {
+        // Release the bitmap and pdf.js page resources right away
+        canvas.width = 0;
+        canvas.height = 0;
+        page.cleanup();
+      }
+    },
+
+    async renderThumbnail(pageNumber, width) {
+      throwIfCancelled(signal);
+
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+      const canvas = document.createElement("canvas");
 
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const viewport = page.getViewport({ scale });
+      try {
+        await drawPage(page, viewport, canvas);
+        return await canvasToObjectURL(canvas, 0.7);
+      } finally {
+        canvas.width = 0;
+        canvas.height = 0;
+        page.cleanup();
+      }
+    },
 
-    // Create canvas for rendering
-    const canvas = document.createElement("canvas");
-    const context = canvas.getContext("2d");
+    async readText(pageNumber, format) {
+      throwIfCancelled(signal);
 
-    if (!context) {
-      throw new Error("Failed to get canvas context");
+      const page = await pdf.getPage(pageNumber);
+      const layer = await readTextLayer(page, pdfjsLib.OPS, format);
+
+      if (layer.kind === "text") {
+        page.cleanup();
+      }
+      return layer;
+    },
+
+    destroy() {
+      return pdf.destroy();
+    },
+  };
+}
+
+/**
+ * Count a file's pages without rendering any
+ */
+export async function getPageCount(file: File, signal?: AbortSignal): Promise<number> {
+  const pdf = await openPages(file, { signal });
+  const { numPages } = pdf;
+  await pdf.destroy();
+  return numPages;
+}
+
+/**
+ * Render the given pages one at a time as lossless PNGs
+ * The document is closed when iteration ends, including on early exit.
+ * @param pageNumbers - Pages to render (default: all)
+ * @param rotations - Clockwise degrees per page number, as chosen before OCR
+ */
+export async function* renderPages(
+  file: File,
+  {
+    scale = 2,
+    pageNumbers,
+    rotations = {},
+    signal,
+  }: { scale?: number; pageNumbers?: number[]; rotations?: Record<number, number>; signal?: AbortSignal } = {}
+): AsyncGenerator<PDFPage> {
+  const pdf = await openPages(file, { signal });
+
+  try {
+    const pages = pageNumbers ?? Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+
+    for (const pageNumber of pages) {
+      throwIfCancelled(signal);
+      yield await pdf.renderPage(pageNumber, { scale, rotation: rotations[pageNumber], format: "png" });
     }
+  } finally {
+    await pdf.destroy();
+  }
+}
 
-    canvas.width = viewport.width;
-    canvas.height = viewport.height;
-
-    // Render PDF page to canvas
-    await page.render({
-      canvasContext: context,
-      viewport,
-      canvas,
-    }).promise;
-
-    // Convert canvas to base64 PNG (remove data:image/png;base64, prefix)
-    const dataUrl = canvas.toDataURL("image/png");
-    const base64 = dataUrl.split(",")[1];
-
-    pages.push({
-      pageNumber: i,
-      imageBase64: base64,
-      width: viewport.width,
-      height: viewport.height,
-    });
+/**
+ * Throw the AbortError used across PDF processing when the signal is aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException("PDF conversion cancelled", "AbortError");
+  }
+}
+
+/**
+ * Render a page onto a DOM canvas sized to the viewport
+ */
+async function drawPage(page: PDFPageProxy, viewport: PageViewport, canvas: HTMLCanvasElement) {
+  const context = canvas.getContext("2d");
+
+  if (!context) {
+    throw new Error("Failed to get canvas context");
   }
 
-  return pages;
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+
+  await page.render({ canvasContext: context, viewport, canvas }).promise;
 }
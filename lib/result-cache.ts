@@ -0,0 +1,129 @@
+"use client";
+
+/**
+ * OCR result cache
+ * Responses are kept in IndexedDB, keyed by the user, the SHA-256 of the image
+ * sent, the prompt mode and the model, so re-uploading a file reuses its text
+ * instead of billing the provider again. Signing out clears it. The cache is
+ * best effort: a failed lookup or write is logged and treated as a miss.
+ */
+
+import type { OCRPromptType, OCRResponse } from "./ocr-types";
+
+const DB_NAME = "v-ocr";
+const STORE_NAME = "ocr-results";
+// Entries older than this are ignored and overwritten
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CacheEntry {
+  key: string;
+  response: OCRResponse;
+  cachedAt: number;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+/**
+ * Cache key for one user's image read with one prompt by one model
+ * @param hash - SHA-256 of the encoded image, see PreparedImage.hash
+ * @param model - From getActiveModel
+ */
+export function getCacheKey(
+  userId: string,
+  hash: string,
+  promptType: OCRPromptType,
+  model: string
+): string {
+  return `${userId}|${model}|${promptType}|${hash}`;
+}
+
+/**
+ * Look up a cached response
+ * @returns null on a miss, an expired entry or an unavailable cache
+ */
+export async function getCachedResult(key: string): Promise<OCRResponse | null> {
+  try {
+    const entry = await runRequest<CacheEntry | undefined>("readonly", (store) => store.get(key));
+    return entry && Date.now() - entry.cachedAt < MAX_AGE_MS ? entry.response : null;
+  } catch (error) {
+    console.error("Error reading OCR cache:", error);
+    return null;
+  }
+}
+
+/**
+ * Store a response for later uploads of the same image
+ */
+export async function saveCachedResult(key: string, response: OCRResponse): Promise<void> {
+  try {
+    await runRequest("readwrite", (store) => store.put({ key, response, cachedAt: Date.now() } satisfies CacheEntry));
+  } catch (error) {
+    console.error("Error writing OCR cache:", error);
+  }
+}
+
+/**
+ * Remove every cached response, e.g. on sign-out so the next user of the
+ * browser can't read them
+ */
+export async function clearResultCache(): Promise<void> {
+  try {
+    await runRequest("readwrite", (store) => store.clear());
+  } catch (error) {
+    console.error("Error clearing OCR cache:", error);
+  }
+}
+
+/**
+ * Reuse a cached response, or run the extraction and cache what it returns
+ * Cached responses are marked so callers can show them and skip token counts.
+ * @param key - From getCacheKey; null runs the extraction uncached
+ */
+export async function withResultCache<E>(
+  key: string | null,
+  extract: () => Promise<{ data?: OCRResponse; error?: E }>
+): Promise<{ data?: OCRResponse; error?: E; cached?: boolean }> {
+  if (!key) {
+    return extract();
+  }
+
+  const cached = await getCachedResult(key);
+  if (cached) {
+    return { data: cached, cached: true };
+  }
+
+  const result = await extract();
+  if (result.data) {
+    await saveCachedResult(key, result.data);
+  }
+  return result;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again, e.g. after a blocked upgrade
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
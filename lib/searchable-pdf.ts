@@ -0,0 +1,163 @@
+"use client";
+
+/**
+ * Searchable PDF generation
+ * Every page keeps its image and gets an invisible text layer (PDF text
+ * render mode 3), so viewers can search and select the extracted text.
+ * Grounded pages place each block over its source region; other pages
+ * spread their text over the page.
+ */
+
+import {
+  PDFDocument,
+  StandardFonts,
+  TextRenderingMode,
+  popGraphicsState,
+  pushGraphicsState,
+  setTextRenderingMode,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage as PDFLibPage,
+} from "pdf-lib";
+import { hasPages, isPDF, renderPages } from "./pdf-utils";
+import { drawFrame } from "./image-decoders";
+import { canvasToBlob } from "./image-prep";
+import type { GroundingBox } from "./grounding";
+import { toPlainLines, type PageResult } from "./ocr-result";
+
+// Pages are rendered at 2x, so two pixels make one PDF point
+const RENDER_SCALE = 2;
+
+// Margin used when a page has no grounding regions
+const FULL_PAGE_BOX: GroundingBox = { x1: 0.05, y1: 0.05, x2: 0.95, y2: 0.95 };
+
+/**
+ * Build a searchable PDF from the original upload and its page results
+ * Only the extracted pages are included, turned the way they were for OCR so
+ * grounding boxes line up. The standard font only covers Latin-1, so other
+ * scripts are left out of the text layer.
+ * @param rotations - Clockwise degrees per page number, as chosen before OCR
+ */
+export async function createSearchablePDF(
+  file: File,
+  pages: PageResult[],
+  rotations: Record<number, number> = {}
+): Promise<Blob> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const charset = new Set(font.getCharacterSet());
+  const results = new Map(pages.map((page) => [page.pageNumber, page]));
+
+  if (hasPages(file)) {
+    // One page image in memory at a time; pdf-lib keeps only the encoded PNG.
+    // Decoded images (TIFF frames, HEIC) keep their own pixel size.
+    const scale = isPDF(file) ? RENDER_SCALE : 1;
+    const pageNumbers = [...results.keys()].sort((a, b) => a - b);
+    for await (const image of renderPages(file, { scale, pageNumbers, rotations })) {
+      const embedded = await pdf.embedPng(image.imageBase64);
+      const page = pdf.addPage([image.width / scale, image.height / scale]);
+      drawPage(page, embedded, results.get(image.pageNumber), font, charset);
+    }
+  } else {
+    const embedded = await embedImageFile(pdf, file, rotations[1] ?? 0);
+    const page = pdf.addPage([embedded.width, embedded.height]);
+    drawPage(page, embedded, results.get(1), font, charset);
+  }
+
+  const bytes = await pdf.save();
+  return new Blob([bytes as Uint8Array<ArrayBuffer>], { type: "application/pdf" });
+}
+
+/**
+ * Decode an image with its EXIF orientation and rotation applied, since
+ * pdf-lib would embed the stored pixels as-is. JPEGs stay JPEG, anything else
+ * becomes PNG.
+ */
+async function embedImageFile(pdf: PDFDocument, file: File, rotation: number): Promise<PDFImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  const canvas = drawFrame(bitmap, 1, rotation);
+  bitmap.close();
+
+  try {
+    if (file.type === "image/jpeg") {
+      return pdf.embedJpg(await (await canvasToBlob(canvas, "image/jpeg", 0.92)).arrayBuffer());
+    }
+    return pdf.embedPng(await (await canvasToBlob(canvas, "image/png", 1)).arrayBuffer());
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+}
+
+function drawPage(
+  page: PDFLibPage,
+  image: PDFImage,
+  result: PageResult | undefined,
+  font: PDFFont,
+  charset: Set<number>
+) {
+  const { width, height } = page.getSize();
+  page.drawImage(image, { x: 0, y: 0, width, height });
+
+  if (!result) return;
+
+  const blocks = result.regions?.length
+    ? result.regions.map((region) => ({ text: region.text, box: region.box }))
+    : [{ text: result.text, box: FULL_PAGE_BOX }];
+
+  page.pushOperators(pushGraphicsState(), setTextRenderingMode(TextRenderingMode.Invisible));
+  for (const block of blocks) {
+    drawTextBlock(page, block.text, block.box, font, charset);
+  }
+  page.pushOperators(popGraphicsState());
+}
+
+/**
+ * Lay the lines of a block out top to bottom inside its box, sized so each
+ * line roughly spans the box width
+ */
+function drawTextBlock(
+  page: PDFLibPage,
+  text: string,
+  box: GroundingBox,
+  font: PDFFont,
+  charset: Set<number>
+) {
+  const lines = toPlainLines(text)
+    .map((line) => toEncodable(line.replace(/[*_|]+/g, " "), charset))
+    .filter(Boolean);
+
+  if (lines.length === 0) return;
+
+  const { width, height } = page.getSize();
+  const left = box.x1 * width;
+  const top = height - box.y1 * height;
+  const boxWidth = (box.x2 - box.x1) * width;
+  const lineHeight = ((box.y2 - box.y1) * height) / lines.length;
+
+  lines.forEach((line, index) => {
+    const widthAtOne = font.widthOfTextAtSize(line, 1);
+    const size = Math.max(
+      1,
+      Math.min(lineHeight * 0.8, widthAtOne > 0 ? boxWidth / widthAtOne : lineHeight)
+    );
+
+    page.drawText(line, {
+      x: left,
+      y: top - lineHeight * (index + 1) + lineHeight * 0.2,
+      size,
+      font,
+    });
+  });
+}
+
+/**
+ * Replace characters the font can't encode with spaces
+ */
+function toEncodable(line: string, charset: Set<number>): string {
+  return Array.from(line)
+    .map((char) => (charset.has(char.codePointAt(0)!) ? char : " "))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,51 @@
+/**
+ * Minimal server-sent events helpers, used both for reading provider streams
+ * on the server and for reading the /api/ocr stream in the browser
+ */
+
+/**
+ * Yield the data payload of each event in an SSE byte stream
+ */
+export async function* readSSEData(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      // Events are separated by a blank line
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? "";
+
+      for (const event of events) {
+        const data = getEventData(event);
+        if (data !== null) yield data;
+      }
+    }
+
+    const data = getEventData(buffer);
+    if (data !== null) yield data;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function getEventData(event: string): string | null {
+  const lines = event
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).replace(/^ /, ""));
+
+  return lines.length > 0 ? lines.join("\n") : null;
+}
+
+/**
+ * Encode one JSON payload as an SSE event
+ */
+export function encodeSSEEvent(payload: unknown): string {
+  return `data: ${JSON.stringify(payload)}\n\n`;
+}
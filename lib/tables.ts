@@ -0,0 +1,121 @@
+"use client";
+
+/**
+ * Table extraction from OCR results
+ * Finds GFM markdown tables and the HTML tables DeepSeek-OCR often emits,
+ * and turns them into plain rows for CSV/XLSX downloads.
+ */
+
+import { marked, type Tokens } from "marked";
+import type { PageResult } from "./ocr-result";
+
+export interface ExtractedTable {
+  id: string;
+  pageNumber: number;
+  /** 1-based position within the document */
+  index: number;
+  header: string[];
+  rows: string[][];
+}
+
+/**
+ * Collect every table from the given pages in reading order
+ */
+export function extractTables(pages: PageResult[]): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+
+  for (const page of pages) {
+    for (const grid of findTableGrids(page.text)) {
+      const width = Math.max(...grid.map((row) => row.length));
+      const [header, ...rows] = grid.map((row) =>
+        row.length < width ? [...row, ...Array(width - row.length).fill("")] : row
+      );
+      const index = tables.length + 1;
+
+      tables.push({ id: `table-${index}`, pageNumber: page.pageNumber, index, header, rows });
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Display name, e.g. "Page 2 · Table 3"
+ */
+export function getTableName(table: ExtractedTable, multiPage: boolean = true): string {
+  return multiPage ? `Page ${table.pageNumber} · Table ${table.index}` : `Table ${table.index}`;
+}
+
+/**
+ * Header row followed by body rows
+ */
+export function tableToRows(table: ExtractedTable): string[][] {
+  return [table.header, ...table.rows];
+}
+
+/**
+ * Serialise a table as RFC 4180 CSV
+ */
+export function tableToCSV(table: ExtractedTable): string {
+  return rowsToCSV(tableToRows(table));
+}
+
+/**
+ * CSV blob with a BOM so Excel picks up UTF-8
+ */
+export function tableToCSVBlob(table: ExtractedTable): Blob {
+  return rowsToCSVBlob(tableToRows(table));
+}
+
+export function rowsToCSV(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCSVCell).join(",")).join("\r\n");
+}
+
+export function rowsToCSVBlob(rows: string[][]): Blob {
+  return new Blob(["\uFEFF" + rowsToCSV(rows)], { type: "text/csv;charset=utf-8" });
+}
+
+function escapeCSVCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Raw cell grids (header row first) for each table in a markdown string
+ */
+function findTableGrids(markdown: string): string[][][] {
+  const grids: string[][][] = [];
+
+  for (const token of marked.lexer(markdown)) {
+    if (token.type === "table") {
+      const table = token as Tokens.Table;
+      grids.push([
+        table.header.map((cell) => cell.text.trim()),
+        ...table.rows.map((row) => row.map((cell) => cell.text.trim())),
+      ]);
+    } else if (token.type === "html" && /<table/i.test(token.raw)) {
+      grids.push(...parseHTMLTables(token.raw));
+    } else if (token.type === "paragraph" && /<table/i.test(token.raw)) {
+      // Inline HTML tables end up inside paragraphs when not on their own line
+      grids.push(...parseHTMLTables(token.raw));
+    }
+  }
+
+  return grids.filter((grid) => grid.length > 0);
+}
+
+/**
+ * Read HTML tables, repeating colspan cells as empty cells so columns line up
+ */
+function parseHTMLTables(html: string): string[][][] {
+  const parsed = new DOMParser().parseFromString(html, "text/html");
+
+  return Array.from(parsed.querySelectorAll("table")).map((table) =>
+    Array.from(table.querySelectorAll("tr")).map((row) =>
+      Array.from(row.querySelectorAll("th, td")).flatMap((cell) => {
+        const text = cell.textContent?.replace(/\s+/g, " ").trim() ?? "";
+        const span = Math.max(1, Number(cell.getAttribute("colspan")) || 1);
+        return [text, ...Array(span - 1).fill("")];
+      })
+    )
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { supabase } from "./supabase";
+import type { ExtractionMethod, FieldTemplate, TemplateField } from "./field-templates";
+
+export interface FieldTemplateInput {
+  name: string;
+  method: ExtractionMethod;
+  fields: TemplateField[];
+}
+
+/**
+ * List a user's field templates by name
+ */
+export async function listTemplates(
+  userId: string
+): Promise<{ templates: FieldTemplate[]; error?: string }> {
+  try {
+    const { data, error } = await supabase
+      .from("field_templates")
+      .select("*")
+      .eq("user_id", userId)
+      .order("name");
+
+    if (error) throw error;
+
+    return { templates: (data ?? []) as FieldTemplate[] };
+  } catch (error) {
+    console.error("Error listing templates:", error);
+    return {
+      templates: [],
+      error: error instanceof Error ? error.message : "Failed to load templates",
+    };
+  }
+}
+
+/**
+ * Create a template, or update it when an id is given
+ */
+export async function saveTemplate(
+  userId: string,
+  template: FieldTemplateInput,
+  id?: string
+): Promise<{ template?: FieldTemplate; error?: string }> {
+  try {
+    const row = {
+      name: template.name.trim(),
+      method: template.method,
+      fields: template.fields.map(({ name, type, hint }) => ({
+        name: name.trim(),
+        type,
+        ...(hint?.trim() && { hint: hint.trim() }),
+      })),
+    };
+
+    const { data, error } = id
+      ? await supabase
+          .from("field_templates")
+          .update(row)
+          .eq("user_id", userId)
+          .eq("id", id)
+          .select("*")
+          .single()
+      : await supabase
+          .from("field_templates")
+          .insert({ user_id: userId, ...row })
+          .select("*")
+          .single();
+
+    if (error) {
+      // Unique (user_id, name)
+      if (error.code === "23505") {
+        return { error: `A template named "${row.name}" already exists` };
+      }
+      throw error;
+    }
+
+    return { template: data as FieldTemplate };
+  } catch (error) {
+    console.error("Error saving template:", error);
+    return {
+      error: error instanceof Error ? error.message : "Failed to save template",
+    };
+  }
+}
+
+/**
+ * Delete one of the user's templates
+ */
+export async function deleteTemplate(
+  userId: string,
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("field_templates")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting template:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete template",
+    };
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Line-based diff between the raw OCR output and the user's corrections
+ */
+
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+/**
+ * Diff two texts line by line (longest common subsequence)
+ * Common leading/trailing lines are skipped first, so small edits to long
+ * documents stay cheap.
+ */
+export function diffLines(original: string, revised: string): DiffLine[] {
+  const a = original.split("\n");
+  const b = revised.split("\n");
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+  const lcs = Array.from({ length: midA.length + 1 }, () =>
+    new Array<number>(midB.length + 1).fill(0)
+  );
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      middle.push({ type: "equal", text: midA[i] });
+      i++;
+      j++;
+    } else if (j < midB.length && (i >= midA.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      middle.push({ type: "added", text: midB[j] });
+      j++;
+    } else {
+      middle.push({ type: "removed", text: midA[i] });
+      i++;
+    }
+  }
+
+  return [
+    ...a.slice(0, start).map((text): DiffLine => ({ type: "equal", text })),
+    ...middle,
+    ...a.slice(endA).map((text): DiffLine => ({ type: "equal", text })),
+  ];
+}
+
+export function getDiffStats(diff: DiffLine[]): DiffStats {
+  return {
+    added: diff.filter((line) => line.type === "added").length,
+    removed: diff.filter((line) => line.type === "removed").length,
+  };
+}
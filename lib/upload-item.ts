@@ -0,0 +1,161 @@
+"use client";
+
+import type { OCRPromptType } from "./deepseek-client";
+import { hasPages, parsePageRanges } from "./pdf-utils";
+import { hashBlob } from "./image-prep";
+
+/**
+ * Prompt override for a range of PDF pages, e.g. "3-4" → figure
+ */
+export interface PagePromptOverride {
+  id: string;
+  range: string;
+  promptType: OCRPromptType;
+}
+
+/**
+ * A file queued for OCR together with its per-file settings
+ */
+export interface UploadItem {
+  id: string;
+  file: File;
+  promptType: OCRPromptType;
+  pagePrompts: PagePromptOverride[];
+  /** Read born-digital PDF pages from their embedded text instead of OCR */
+  useTextLayer: boolean;
+  /** PDF pages to extract, in order; null means every page */
+  pages: number[] | null;
+  /** Extra clockwise rotation per PDF page in degrees, applied before OCR */
+  rotations: Record<number, number>;
+}
+
+// Bytes hashed from each end of a file for its fingerprint
+const FINGERPRINT_SAMPLE_BYTES = 64 * 1024;
+// Bytes read from each file per step when comparing content
+const COMPARE_CHUNK_BYTES = 4 * 1024 * 1024;
+
+// Rough tokens per page: ~260 vision tokens for the page image plus typical output
+const ESTIMATED_PAGE_TOKENS: Record<OCRPromptType, number> = {
+  document: 1000,
+  general: 800,
+  free: 700,
+  figure: 600,
+  grounding: 1600,
+};
+
+/**
+ * Wrap a file in an upload item with default settings
+ */
+export function createUploadItem(
+  file: File,
+  promptType: OCRPromptType = "document"
+): UploadItem {
+  return {
+    id: crypto.randomUUID(),
+    file,
+    promptType,
+    pagePrompts: [],
+    useTextLayer: true,
+    pages: null,
+    rotations: {},
+  };
+}
+
+/**
+ * Create an empty page range override for a PDF item
+ */
+export function createPagePromptOverride(
+  promptType: OCRPromptType = "figure"
+): PagePromptOverride {
+  return {
+    id: crypto.randomUUID(),
+    range: "",
+    promptType,
+  };
+}
+
+/**
+ * Resolve the prompt type for a given page of an item.
+ * Later overrides win when ranges overlap; malformed ranges are ignored.
+ */
+export function getPagePromptType(
+  item: UploadItem,
+  pageNumber: number
+): OCRPromptType {
+  if (!hasPages(item.file)) {
+    return item.promptType;
+  }
+
+  let promptType = item.promptType;
+  for (const override of item.pagePrompts) {
+    const pages = parsePageRanges(override.range);
+    if (pages?.includes(pageNumber)) {
+      promptType = override.promptType;
+    }
+  }
+
+  return promptType;
+}
+
+/**
+ * Pages of an item to extract, dropping any beyond the end of the document
+ */
+export function getSelectedPages(item: UploadItem, pageCount: number): number[] {
+  if (!hasPages(item.file)) {
+    return [1];
+  }
+
+  return item.pages
+    ? item.pages.filter((page) => page <= pageCount)
+    : Array.from({ length: pageCount }, (_, index) => index + 1);
+}
+
+/**
+ * Estimated tokens to OCR an item's selected pages in their modes
+ * An upper bound: pages read from an embedded text layer cost nothing.
+ */
+export function estimateTokens(item: UploadItem, pageCount: number): number {
+  return getSelectedPages(item, pageCount).reduce(
+    (total, page) => total + ESTIMATED_PAGE_TOKENS[getPagePromptType(item, page)],
+    0
+  );
+}
+
+/**
+ * Cheap content fingerprint: the size plus a hash of the first and last 64 KB
+ * Files with different fingerprints differ; equal ones still need hasSameContent.
+ */
+export async function getFileFingerprint(file: Blob): Promise<string> {
+  const sample =
+    file.size <= FINGERPRINT_SAMPLE_BYTES * 2
+      ? file
+      : new Blob([file.slice(0, FINGERPRINT_SAMPLE_BYTES), file.slice(-FINGERPRINT_SAMPLE_BYTES)]);
+
+  return `${file.size}:${await hashBlob(sample)}`;
+}
+
+/**
+ * Compare two files byte for byte, a chunk at a time so neither is read into
+ * memory whole
+ */
+export async function hasSameContent(a: Blob, b: Blob): Promise<boolean> {
+  if (a.size !== b.size) {
+    return false;
+  }
+
+  for (let start = 0; start < a.size; start += COMPARE_CHUNK_BYTES) {
+    const end = start + COMPARE_CHUNK_BYTES;
+    const [left, right] = await Promise.all([
+      a.slice(start, end).arrayBuffer(),
+      b.slice(start, end).arrayBuffer(),
+    ]);
+    const leftBytes = new Uint8Array(left);
+    const rightBytes = new Uint8Array(right);
+
+    for (let i = 0; i < leftBytes.length; i++) {
+      if (leftBytes[i] !== rightBytes[i]) return false;
+    }
+  }
+
+  return true;
+}
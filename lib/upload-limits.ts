@@ -0,0 +1,17 @@
+/**
+ * Upload limits, configurable per deployment
+ * NEXT_PUBLIC_ variables are inlined at build time, so changing them needs a rebuild.
+ */
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Largest accepted file in megabytes (NEXT_PUBLIC_MAX_FILE_SIZE_MB, default 200) */
+export const MAX_FILE_SIZE_MB = parseLimit(process.env.NEXT_PUBLIC_MAX_FILE_SIZE_MB, 200);
+
+export const MAX_FILE_SIZE = MAX_FILE_SIZE_MB * 1024 * 1024;
+
+/** Files per upload (NEXT_PUBLIC_MAX_FILES, default 100) */
+export const MAX_FILES = Math.floor(parseLimit(process.env.NEXT_PUBLIC_MAX_FILES, 100));
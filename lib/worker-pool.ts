@@ -0,0 +1,138 @@
+/**
+ * Bounded-concurrency helpers for OCR requests
+ */
+
+export interface WorkerPool {
+  /** Run a task once a slot is free and the pool isn't paused */
+  run<T>(task: () => Promise<T>): Promise<T>;
+  /** Hold back new tasks for a while, e.g. after a 429; in-flight tasks continue */
+  pauseFor(ms: number): void;
+  /** Hold back new tasks until resume() */
+  pause(): void;
+  resume(): void;
+  /** Reject every queued and future task with an AbortError */
+  cancel(): void;
+  /** Timestamp (ms) until which the pool is paused, or 0 */
+  readonly pausedUntil: number;
+  readonly paused: boolean;
+}
+
+/**
+ * Create a pool that runs at most `concurrency` tasks at a time
+ */
+export function createWorkerPool(concurrency: number): WorkerPool {
+  const limit = Math.max(1, Math.floor(concurrency));
+  let waiting: (() => void)[] = [];
+  let active = 0;
+  let pausedUntil = 0;
+  let paused = false;
+  let cancelled = false;
+
+  // Wait until something changes (or `ms` passes), then re-check
+  const wait = (ms?: number) =>
+    new Promise<void>((resolve) => {
+      waiting.push(resolve);
+      if (ms !== undefined) setTimeout(resolve, ms);
+    });
+
+  const wakeAll = () => {
+    const resolvers = waiting;
+    waiting = [];
+    resolvers.forEach((resolve) => resolve());
+  };
+
+  const acquire = async () => {
+    for (;;) {
+      if (cancelled) {
+        throw new DOMException("Worker pool cancelled", "AbortError");
+      }
+
+      if (paused) {
+        await wait();
+        continue;
+      }
+
+      const pause = pausedUntil - Date.now();
+      if (pause > 0) {
+        await wait(pause);
+        continue;
+      }
+
+      if (active < limit) {
+        active++;
+        return;
+      }
+
+      await wait();
+    }
+  };
+
+  const release = () => {
+    active--;
+    wakeAll();
+  };
+
+  return {
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+
+    pauseFor(ms: number) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+
+    pause() {
+      paused = true;
+    },
+
+    resume() {
+      paused = false;
+      wakeAll();
+    },
+
+    cancel() {
+      cancelled = true;
+      wakeAll();
+    },
+
+    get pausedUntil() {
+      return pausedUntil > Date.now() ? pausedUntil : 0;
+    },
+
+    get paused() {
+      return paused;
+    },
+  };
+}
+
+/**
+ * Map over items with at most `concurrency` callbacks in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.min(Math.max(1, Math.floor(concurrency)), items.length) },
+    worker
+  );
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,188 @@
+"use client";
+
+/**
+ * Minimal XLSX writer
+ * Builds a workbook of plain sheets (bold header row, numbers detected) with
+ * JSZip, so we don't need a full spreadsheet library for table downloads.
+ */
+
+import JSZip from "jszip";
+
+export interface WorkbookSheet {
+  name: string;
+  /** First row is styled as the header */
+  rows: string[][];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * Build an .xlsx file from one or more sheets
+ */
+export async function createWorkbook(sheets: WorkbookSheet[]): Promise<Blob> {
+  const zip = new JSZip();
+  const names = getUniqueSheetNames(sheets.map((sheet) => sheet.name));
+
+  zip.file(
+    "[Content_Types].xml",
+    XML_HEADER +
+      `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+      `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+      sheets
+        .map(
+          (_, i) =>
+            `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        )
+        .join("") +
+      `</Types>`
+  );
+
+  zip.file(
+    "_rels/.rels",
+    XML_HEADER +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+      `</Relationships>`
+  );
+
+  zip.file(
+    "xl/workbook.xml",
+    XML_HEADER +
+      `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+      names
+        .map((name, i) => `<sheet name="${escapeXML(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+        .join("") +
+      `</sheets></workbook>`
+  );
+
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    XML_HEADER +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      sheets
+        .map(
+          (_, i) =>
+            `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+        )
+        .join("") +
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      `</Relationships>`
+  );
+
+  // Style 0 is the default, style 1 is bold for header rows
+  zip.file(
+    "xl/styles.xml",
+    XML_HEADER +
+      `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+      `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+      `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>` +
+      `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+      `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+      `<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>` +
+      `</styleSheet>`
+  );
+
+  sheets.forEach((sheet, i) => {
+    zip.file(`xl/worksheets/sheet${i + 1}.xml`, buildSheetXML(sheet.rows));
+  });
+
+  return zip.generateAsync({
+    type: "blob",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+}
+
+function buildSheetXML(rows: string[][]): string {
+  const rowXML = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          const ref = `${getColumnName(c)}${r + 1}`;
+          const style = r === 0 ? ' s="1"' : "";
+          const number = r === 0 ? null : parseNumericCell(value);
+
+          if (number !== null) {
+            return `<c r="${ref}"${style}><v>${number}</v></c>`;
+          }
+          if (!value) {
+            return "";
+          }
+          return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`;
+        })
+        .join("");
+
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return (
+    XML_HEADER +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowXML}</sheetData></worksheet>`
+  );
+}
+
+/**
+ * Read amounts like "1,234.50", "$12", "-3" or accounting-style "(450.00)"
+ * as numbers; anything else (including IDs with leading zeros) stays text
+ */
+export function parseNumericCell(value: string): number | null {
+  const match = /^(\()?([-+])?[$€£¥]?\s?((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)(\))?$/.exec(
+    value.trim()
+  );
+
+  if (!match || Boolean(match[1]) !== Boolean(match[4])) {
+    return null;
+  }
+
+  const digits = match[3].replace(/,/g, "");
+  if (/^0\d/.test(digits)) {
+    return null;
+  }
+
+  const number = Number(digits);
+  return match[1] || match[2] === "-" ? -number : number;
+}
+
+/**
+ * 0 → "A", 25 → "Z", 26 → "AA"
+ */
+function getColumnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Excel sheet names: at most 31 characters, no []:*?/\ and unique
+ */
+function getUniqueSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+
+  return names.map((name) => {
+    const base = name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet";
+    let unique = base;
+
+    for (let n = 2; used.has(unique.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      unique = base.slice(0, 31 - suffix.length) + suffix;
+    }
+
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
@@ -0,0 +1,49 @@
+-- Store one API key per OCR provider instead of one per user
+ALTER TABLE user_api_keys
+  ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'deepinfra',
+  ADD COLUMN IF NOT EXISTS model TEXT,
+  ADD COLUMN IF NOT EXISTS base_url TEXT;
+
+ALTER TABLE user_api_keys DROP CONSTRAINT IF EXISTS user_api_keys_user_id_key;
+
+ALTER TABLE user_api_keys
+  ADD CONSTRAINT user_api_keys_user_id_provider_key UNIQUE (user_id, provider);
+
+-- Create table for the provider each user currently extracts with
+CREATE TABLE IF NOT EXISTS user_ocr_settings (
+  user_id TEXT PRIMARY KEY REFERENCES "user"(id) ON DELETE CASCADE,
+  active_provider TEXT NOT NULL DEFAULT 'deepinfra',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE user_ocr_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Users can read their own settings
+CREATE POLICY "Users can read own OCR settings"
+  ON user_ocr_settings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+-- Create policy: Users can insert their own settings
+CREATE POLICY "Users can insert own OCR settings"
+  ON user_ocr_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Create policy: Users can update their own settings
+CREATE POLICY "Users can update own OCR settings"
+  ON user_ocr_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Create trigger to update updated_at on row update
+CREATE TRIGGER update_user_ocr_settings_updated_at
+  BEFORE UPDATE ON user_ocr_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
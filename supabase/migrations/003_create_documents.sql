@@ -0,0 +1,62 @@
+-- Create table for storing OCR results so they survive a reset or refresh
+CREATE TABLE IF NOT EXISTS documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  prompt_type TEXT NOT NULL,
+  page_count INTEGER NOT NULL DEFAULT 1,
+  -- Per-page results: [{ "pageNumber": 1, "text": "...", "promptType": "document", "tokensUsed": 812, "regions": [...] }]
+  pages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Combined text as shown in the preview
+  text TEXT NOT NULL,
+  tokens_used INTEGER NOT NULL DEFAULT 0,
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(file_name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(text, '')), 'B')
+  ) STORED,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for listing a user's history and full-text search
+CREATE INDEX IF NOT EXISTS idx_documents_user_id_created_at ON documents(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_documents_search_vector ON documents USING GIN (search_vector);
+
+-- Enable Row Level Security
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Users can only read their own documents
+CREATE POLICY "Users can read own documents"
+  ON documents
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+-- Create policy: Users can insert their own documents
+CREATE POLICY "Users can insert own documents"
+  ON documents
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Create policy: Users can update their own documents
+CREATE POLICY "Users can update own documents"
+  ON documents
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Create policy: Users can delete their own documents
+CREATE POLICY "Users can delete own documents"
+  ON documents
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+-- Create trigger to update updated_at on row update
+CREATE TRIGGER update_documents_updated_at
+  BEFORE UPDATE ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,14 @@
+-- Keep user corrections next to the raw model output so we can see how often OCR needs fixing
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS corrected_text TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS corrected_at TIMESTAMPTZ;
+-- Size of the correction: { "added": 3, "removed": 2 } lines
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS correction_stats JSONB;
+
+-- Search the corrected text when there is one (dropping the column drops its index)
+ALTER TABLE documents DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE documents ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(file_name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(corrected_text, text, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_documents_search_vector ON documents USING GIN (search_vector);
@@ -0,0 +1,54 @@
+-- Create table for user-defined field templates used for structured extraction
+CREATE TABLE IF NOT EXISTS field_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- 'rules' (label/table/pattern matching) or 'model' (extra chat-completions pass)
+  method TEXT NOT NULL DEFAULT 'rules' CHECK (method IN ('rules', 'model')),
+  -- [{ "name": "invoice_number", "type": "text", "hint": "Invoice #, Inv No" }]
+  fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+-- Create index for listing a user's templates
+CREATE INDEX IF NOT EXISTS idx_field_templates_user_id ON field_templates(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE field_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Users can only read their own templates
+CREATE POLICY "Users can read own field templates"
+  ON field_templates
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+-- Create policy: Users can insert their own templates
+CREATE POLICY "Users can insert own field templates"
+  ON field_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Create policy: Users can update their own templates
+CREATE POLICY "Users can update own field templates"
+  ON field_templates
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Create policy: Users can delete their own templates
+CREATE POLICY "Users can delete own field templates"
+  ON field_templates
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+-- Create trigger to update updated_at on row update
+CREATE TRIGGER update_field_templates_updated_at
+  BEFORE UPDATE ON field_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,5 @@
+-- Leading text for history listings, so they don't have to fetch whole documents
+-- Keep the length in sync with EXCERPT_LENGTH in lib/document-service.ts
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS excerpt TEXT GENERATED ALWAYS AS (
+  left(coalesce(corrected_text, text, ''), 500)
+) STORED;
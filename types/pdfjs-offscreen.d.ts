@@ -0,0 +1,32 @@
+import type {
+  DocumentInitParameters,
+  PDFDocumentLoadingTask,
+  RenderParameters,
+  RenderTask,
+} from "pdfjs-dist/types/src/display/api";
+
+/**
+ * pdf.js types its rendering API for the DOM only. These overloads describe
+ * how lib/pdf-render.worker.ts drives it from a worker with OffscreenCanvas.
+ */
+declare module "pdfjs-dist/types/src/display/api" {
+  /**
+   * Stand-in for the document, which pdf.js only uses to register embedded fonts
+   */
+  interface FontOwner {
+    fonts: FontFaceSet;
+  }
+
+  function getDocument(
+    src: Omit<DocumentInitParameters, "ownerDocument"> & { ownerDocument: FontOwner }
+  ): PDFDocumentLoadingTask;
+
+  interface PDFPageProxy {
+    render(
+      params: Omit<RenderParameters, "canvas" | "canvasContext"> & {
+        canvas: null;
+        canvasContext: OffscreenCanvasRenderingContext2D;
+      }
+    ): RenderTask;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * pdf.js's worker bundle, imported by lib/pdf-render.worker.ts to run the
+ * parser in the same thread; pdfjs-dist ships no declarations for it
+ */
+declare module "pdfjs-dist/build/pdf.worker.min.mjs" {
+  export const WorkerMessageHandler: unknown;
+}